@@ -2,13 +2,16 @@
 
 import { useState, useEffect } from 'react';
 import { User } from 'firebase/auth';
+import { ReasonRef } from '@/types';
 
 import { useFirestoreData } from '../hooks/use-firestore-data';
 
 import { Header } from '../components/header';
+import { ExportBundleDialog } from '../components/export-bundle-dialog';
 import { DataTab } from '../components/tabs/data-tab';
 import { RulesTab } from '../components/tabs/rules-tab';
 import { PrioritizationTab } from '../components/tabs/prioritization-tab';
+import { AllocationTab } from '../components/tabs/allocation-tab';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
 
@@ -20,13 +23,30 @@ export default function DataAlchemistPage() {
         workers, 
         tasks, 
         rules, 
+        quarantinedRules,
         priorities, 
-        saveDataToFirestore, 
+        weighting,
+        presets,
+        scenarios,
+        dismissedRecommendations,
+        templates,
+        columnMappings,
+        attributeSchema,
+        saveImportToFirestore,
         saveSingleDocToFirestore, 
-        saveConfigToFirestore 
+        saveConfigToFirestore,
+        saveRulesToFirestore,
+        savePrioritiesToFirestore
     } = useFirestoreData();
     
     const [loadingProgress, setLoadingProgress] = useState(0);
+    const [activeTab, setActiveTab] = useState('data');
+    const [focus, setFocus] = useState<ReasonRef | null>(null);
+
+    const navigateTo = (ref: ReasonRef) => {
+        setFocus(ref);
+        setActiveTab(ref.kind === 'rule' ? 'rules' : 'data');
+    };
 
     useEffect(() => {
         if (!isAuthReady) {
@@ -55,26 +75,67 @@ export default function DataAlchemistPage() {
         <div className="min-h-screen bg-secondary/40">
             <Header userId={user?.uid || null} />
             <main className="container mx-auto p-4 md:p-6">
-                <Tabs defaultValue="data" className="w-full">
-                    <TabsList className="grid w-full grid-cols-3">
+                <div className="flex justify-end mb-4">
+                    <ExportBundleDialog clients={clients} workers={workers} tasks={tasks} rules={rules} priorities={priorities} attributeSchema={attributeSchema} />
+                </div>
+                <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+                    <TabsList className="grid w-full grid-cols-4">
                         <TabsTrigger value="data">Data Ingestion & Validation</TabsTrigger>
                         <TabsTrigger value="rules">Rule Definition</TabsTrigger>
                         <TabsTrigger value="prioritization">Prioritization & Weights</TabsTrigger>
+                        <TabsTrigger value="allocation">Allocation</TabsTrigger>
                     </TabsList>
                     <TabsContent value="data">
                         <DataTab 
                             clients={clients}
                             workers={workers}
                             tasks={tasks}
-                            saveData={saveDataToFirestore}
+                            rules={rules}
+                            onUpdateRules={(newRules) => saveRulesToFirestore(newRules)}
+                            saveImport={saveImportToFirestore}
                             saveSingleDoc={saveSingleDocToFirestore}
+                            focus={focus?.kind === 'row' ? focus : null}
+                            columnMappings={columnMappings}
+                            onUpdateColumnMappings={(mappings) => saveConfigToFirestore('columnMappings', mappings)}
+                            attributeSchema={attributeSchema}
+                            onUpdateAttributeSchema={(schema) => saveConfigToFirestore('attributeSchema', schema)}
                         />
                     </TabsContent>
                     <TabsContent value="rules">
-                       <RulesTab rules={rules} onUpdate={(newRules) => saveConfigToFirestore('rules', newRules)} />
+                       <RulesTab
+                           clients={clients}
+                           workers={workers}
+                           tasks={tasks}
+                           rules={rules}
+                           quarantinedRules={quarantinedRules}
+                           onUpdate={(newRules, quarantined) => saveRulesToFirestore(newRules, quarantined)}
+                           focusedRuleId={focus?.kind === 'rule' ? focus.ruleId : undefined}
+                           dismissedRecommendations={dismissedRecommendations}
+                           onUpdateDismissedRecommendations={(keys) => saveConfigToFirestore('dismissedRecommendations', keys)}
+                           templates={templates}
+                           onUpdateTemplates={(newTemplates) => saveConfigToFirestore('templates', newTemplates)}
+                       />
                     </TabsContent>
                     <TabsContent value="prioritization">
-                       <PrioritizationTab priorities={priorities} onUpdate={(newP) => saveConfigToFirestore('priorities', newP)} />
+                       <PrioritizationTab
+                           priorities={priorities}
+                           weighting={weighting}
+                           onUpdate={savePrioritiesToFirestore}
+                           presets={presets}
+                           onUpdatePresets={(newPresets) => saveConfigToFirestore('presets', newPresets)}
+                       />
+                    </TabsContent>
+                    <TabsContent value="allocation">
+                       <AllocationTab
+                           clients={clients}
+                           workers={workers}
+                           tasks={tasks}
+                           rules={rules}
+                           priorities={priorities}
+                           scenarios={scenarios}
+                           onUpdateScenarios={(newScenarios) => saveConfigToFirestore('scenarios', newScenarios)}
+                           onNavigate={navigateTo}
+                       />
                     </TabsContent>
                 </Tabs>
             </main>
@@ -0,0 +1,128 @@
+"use client";
+
+import { FC, useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { CriterionKey, Priorities } from '@/types';
+import { CRITERIA } from '@/lib/criteria';
+import { SAATY_SCALE, CONSISTENCY_THRESHOLD, PairwiseJudgments, ahpWeights, criterionPairs, judgmentFor, pairKey } from '@/lib/ahp';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { NativeSelect } from './ui/native-select';
+import { toast } from 'sonner';
+
+interface AhpWeightsPanelProps {
+    weights: Priorities;
+    onApply: (weights: Priorities) => void;
+}
+
+const labelOf = (key: CriterionKey) => CRITERIA.find(c => c.key === key)!.label;
+
+// Judgments below 1 are written as fractions so option values survive a round trip.
+const formatJudgment = (value: number) => (value >= 1 ? String(Math.round(value)) : `1/${Math.round(1 / value)}`);
+const parseJudgment = (text: string) => (text.startsWith('1/') ? 1 / Number(text.slice(2)) : Number(text));
+
+const formatRatio = (value: number) => (value >= 1 ? `${value.toFixed(1)}×` : `1/${(1 / value).toFixed(1)}×`);
+
+export const AhpWeightsPanel: FC<AhpWeightsPanelProps> = ({ weights, onApply }) => {
+    const [included, setIncluded] = useState<CriterionKey[]>(() => {
+        const weighted = CRITERIA.filter(c => weights[c.key] > 0).map(c => c.key);
+        return weighted.length >= 2 ? weighted : CRITERIA.map(c => c.key);
+    });
+    const [judgments, setJudgments] = useState<PairwiseJudgments>({});
+
+    const pairs = criterionPairs(included);
+    const result = useMemo(() => (included.length >= 2 ? ahpWeights(included, judgments) : null), [included, judgments]);
+    const inconsistent = result !== null && result.consistencyRatio > CONSISTENCY_THRESHOLD;
+
+    const toggleCriterion = (key: CriterionKey) => {
+        // Keep the registry order so pairs are always asked the same way round.
+        setIncluded(CRITERIA.map(c => c.key).filter(k => (k === key ? !included.includes(k) : included.includes(k))));
+    };
+
+    const setJudgment = (a: CriterionKey, b: CriterionKey, value: number) => {
+        setJudgments({ ...judgments, [pairKey(a, b)]: value });
+    };
+
+    const applyWeights = () => {
+        if (!result) return;
+        onApply(result.weights);
+        toast.success(inconsistent ? 'Weights applied, but the judgments are inconsistent' : 'Weights applied from pairwise comparisons');
+    };
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <Label className="font-semibold">Criteria to compare</Label>
+                <p className="text-sm text-muted-foreground">Criteria left out get a weight of 0%.</p>
+                <div className="flex flex-wrap gap-4 mt-2">
+                    {CRITERIA.map(({ key, label }) => (
+                        <label key={key} className="flex items-center gap-2 text-sm">
+                            <input type="checkbox" checked={included.includes(key)} onChange={() => toggleCriterion(key)} />
+                            {label}
+                        </label>
+                    ))}
+                </div>
+            </div>
+
+            {included.length < 2 ? (
+                <p className="text-sm text-muted-foreground">Select at least two criteria to compare.</p>
+            ) : (
+                <div className="space-y-2">
+                    <Label className="font-semibold">Which matters more, and by how much? ({pairs.length} comparisons)</Label>
+                    {pairs.map(([a, b]) => (
+                        <div key={pairKey(a, b)} className="grid grid-cols-[1fr_16rem_1fr] items-center gap-3 text-sm">
+                            <span className="text-right">{labelOf(a)}</span>
+                            <NativeSelect
+                                aria-label={`${labelOf(a)} compared with ${labelOf(b)}`}
+                                value={formatJudgment(judgmentFor(judgments, a, b))}
+                                onChange={e => setJudgment(a, b, parseJudgment(e.target.value))}
+                            >
+                                {SAATY_SCALE.map(value => (
+                                    <option key={value} value={formatJudgment(value)}>
+                                        {value === 1
+                                            ? 'Equally important'
+                                            : value > 1
+                                                ? `← ${Math.round(value)}× more important`
+                                                : `${Math.round(1 / value)}× more important →`}
+                                    </option>
+                                ))}
+                            </NativeSelect>
+                            <span>{labelOf(b)}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {result && (
+                <div className="space-y-3 border rounded-md p-4">
+                    <div className="grid grid-cols-[1fr_auto_auto] gap-x-6 gap-y-1 text-sm">
+                        <span className="font-semibold">Criterion</span>
+                        <span className="font-semibold text-right">Current</span>
+                        <span className="font-semibold text-right">Derived</span>
+                        {CRITERIA.map(({ key, label }) => (
+                            <div key={key} className="contents">
+                                <span>{label}</span>
+                                <span className="text-right text-muted-foreground">{weights[key]}%</span>
+                                <span className="text-right font-bold text-primary">{result.weights[key]}%</span>
+                            </div>
+                        ))}
+                    </div>
+                    <p className={`flex gap-2 text-sm ${inconsistent ? 'text-amber-700' : 'text-green-700'}`}>
+                        {inconsistent ? <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" /> : <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0" />}
+                        <span>
+                            Consistency ratio {result.consistencyRatio.toFixed(3)}
+                            {inconsistent
+                                ? ` is above ${CONSISTENCY_THRESHOLD}, so the judgments contradict each other.`
+                                : ` is within ${CONSISTENCY_THRESHOLD}.`}
+                            {inconsistent && result.worstPair && (
+                                <> Start with {labelOf(result.worstPair.a)} vs {labelOf(result.worstPair.b)}: you judged
+                                {' '}{formatRatio(result.worstPair.judged)}, but your other answers imply about {formatRatio(result.worstPair.implied)}.</>
+                            )}
+                        </span>
+                    </p>
+                    <Button onClick={applyWeights}>Apply Derived Weights</Button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,74 @@
+"use client";
+
+import { FC } from 'react';
+import { CheckCircle, XCircle, Link2 } from 'lucide-react';
+import { Assignment, UnassignedRequest, ReasonRef, Rule } from '@/types';
+import { RULE_LABELS } from '@/lib/rules';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+
+interface AllocationTracePanelProps {
+    entry: Assignment | UnassignedRequest | null;
+    rules: Rule[];
+    onClose: () => void;
+    onNavigate: (ref: ReasonRef) => void;
+}
+
+const POSITIVE_CODES = ['SKILL_MATCH', 'PHASE_SELECTED', 'PREFERRED_PHASES_MET', 'CO_RUN_GROUPED', 'SEQUENTIAL_AFTER', 'WORKER_CHOSEN'];
+
+export const AllocationTracePanel: FC<AllocationTracePanelProps> = ({ entry, rules, onClose, onNavigate }) => {
+    const describeRef = (ref: ReasonRef) => {
+        if (ref.kind === 'row') return `${ref.id}${ref.field ? `.${ref.field}` : ''}`;
+        const index = rules.findIndex(r => r.id === ref.ruleId);
+        return index === -1 ? 'Deleted rule' : `Rule #${index + 1} (${RULE_LABELS[rules[index].type]})`;
+    };
+
+    return (
+        <Dialog open={entry !== null} onOpenChange={open => !open && onClose()}>
+            <DialogContent className="sm:max-w-2xl">
+                {entry && (
+                    <>
+                        <DialogHeader>
+                            <DialogTitle>
+                                {entry.taskId} for {entry.clientId}
+                            </DialogTitle>
+                            <DialogDescription>
+                                {'workerId' in entry
+                                    ? `Assigned to ${entry.workerId} in phase(s) ${entry.phases.join(', ')}.`
+                                    : `Not assigned: ${entry.reason}`}
+                            </DialogDescription>
+                        </DialogHeader>
+                        <ul className="space-y-3 max-h-96 overflow-y-auto">
+                            {entry.trace.map((reason, index) => (
+                                <li key={index} className="flex gap-2 text-sm">
+                                    {POSITIVE_CODES.includes(reason.code)
+                                        ? <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-green-600" />
+                                        : <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />}
+                                    <div className="space-y-1">
+                                        <p>
+                                            <span className="font-mono text-xs text-muted-foreground mr-2">{reason.code}</span>
+                                            {reason.message}
+                                        </p>
+                                        <div className="flex flex-wrap gap-1">
+                                            {reason.refs.map((ref, refIndex) => (
+                                                <Button
+                                                    key={refIndex}
+                                                    variant="link"
+                                                    size="sm"
+                                                    className="h-auto p-0 mr-2 text-xs"
+                                                    onClick={() => onNavigate(ref)}
+                                                >
+                                                    <Link2 className="h-3 w-3" /> {describeRef(ref)}
+                                                </Button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    </>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1,104 @@
+"use client";
+
+import { FC, useMemo, useState } from 'react';
+import { AlertTriangle, Braces } from 'lucide-react';
+import { AttributeSchema, Client } from '@/types';
+import { checkAttributes, parseAttributes, schemaProblems } from '@/lib/attributes';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+
+interface AttributeSchemaDialogProps {
+    schema: AttributeSchema | null;
+    clients: Client[];
+    onSave: (schema: AttributeSchema | null) => void;
+}
+
+const EXAMPLE: AttributeSchema = {
+    type: 'object',
+    properties: {
+        location: { type: 'string', enum: ['NY', 'SF', 'London'] },
+        budget: { type: 'number', minimum: 0 },
+    },
+    required: ['location'],
+};
+
+// Edits the workspace's JSON Schema for client AttributesJSON. Before saving it shows how many
+// clients the schema would flag, so a too-strict schema is noticed before it floods the error list.
+export const AttributeSchemaDialog: FC<AttributeSchemaDialogProps> = ({ schema, clients, onSave }) => {
+    const [open, setOpen] = useState(false);
+    const [text, setText] = useState('');
+
+    const parsed = useMemo((): { problems: string[]; schema?: AttributeSchema } => {
+        if (text.trim() === '') return { problems: [] };
+        const { value, error } = parseAttributes(text);
+        if (error) return { problems: [`Not valid JSON: ${error}`] };
+        const problems = schemaProblems(value);
+        return problems.length > 0 ? { problems } : { problems, schema: value as AttributeSchema };
+    }, [text]);
+
+    const failing = useMemo(() => {
+        if (!open || !parsed.schema) return 0;
+        const draft = parsed.schema;
+        return clients.filter(c => {
+            const { value, error } = parseAttributes(c.AttributesJSON);
+            return !error && checkAttributes(value ?? {}, draft).length > 0;
+        }).length;
+    }, [open, parsed, clients]);
+
+    const openDialog = () => {
+        setText(schema ? JSON.stringify(schema, null, 2) : '');
+        setOpen(true);
+    };
+
+    const save = (next: AttributeSchema | null) => {
+        onSave(next);
+        setOpen(false);
+    };
+
+    return (
+        <>
+            <Button variant="outline" onClick={openDialog}>
+                <Braces className="mr-2 h-4 w-4" /> Attribute Schema{schema ? '' : ' (none)'}
+            </Button>
+            <Dialog open={open} onOpenChange={setOpen}>
+                <DialogContent className="sm:max-w-2xl">
+                    <DialogHeader>
+                        <DialogTitle>Client Attribute Schema</DialogTitle>
+                        <DialogDescription>
+                            A JSON Schema that every client&apos;s AttributesJSON is checked against. Supported keywords: type, enum,
+                            minimum, maximum, properties, required, additionalProperties, items and description.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <Textarea
+                        aria-label="Attribute schema"
+                        className="font-mono text-xs min-h-64 max-h-[50vh]"
+                        placeholder={JSON.stringify(EXAMPLE, null, 2)}
+                        value={text}
+                        onChange={e => setText(e.target.value)}
+                    />
+                    {parsed.problems.length > 0 ? (
+                        <ul className="space-y-1 text-sm text-destructive">
+                            {parsed.problems.map((problem, i) => (
+                                <li key={i} className="flex gap-2">
+                                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" /> {problem}
+                                </li>
+                            ))}
+                        </ul>
+                    ) : parsed.schema && (
+                        <p className="text-sm text-muted-foreground">
+                            {failing === 0 ? 'Every client matches this schema.' : `${failing} of ${clients.length} client(s) do not match this schema.`}
+                        </p>
+                    )}
+                    <DialogFooter className="sm:justify-between">
+                        <Button variant="ghost" onClick={() => setText(JSON.stringify(EXAMPLE, null, 2))}>Insert example</Button>
+                        <div className="flex gap-2">
+                            {schema && <Button variant="outline" onClick={() => save(null)}>Remove Schema</Button>}
+                            <Button onClick={() => parsed.schema && save(parsed.schema)} disabled={!parsed.schema}>Save Schema</Button>
+                        </div>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+};
@@ -0,0 +1,245 @@
+"use client";
+
+import { FC, ReactNode, useId, useMemo, useState } from 'react';
+import { AlertTriangle, Braces, ListTree, Plus, Trash2 } from 'lucide-react';
+import { AttributeSchema } from '@/types';
+import {
+    AttributeIssue, AttributeNode, AttributeNodeKind, NODE_KINDS,
+    checkAttributes, childSchema, emptyNode, formatPath, fromAttributeNode, nodeKindFor, parseAttributes, toAttributeNode,
+} from '@/lib/attributes';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { NativeSelect } from './ui/native-select';
+import { Textarea } from './ui/textarea';
+
+interface AttributesEditorProps {
+    title: string;
+    value: string | undefined;
+    schema: AttributeSchema | null;
+    onSave: (json: string) => void;
+    onCancel: () => void;
+}
+
+interface NodeProps {
+    node: AttributeNode;
+    schema?: AttributeSchema;
+    path: (string | number)[];
+    // Paths with an issue, as formatted by formatPath.
+    flagged: Set<string>;
+    onChange: (node: AttributeNode) => void;
+}
+
+const isContainer = (node: AttributeNode): node is Extract<AttributeNode, { kind: 'object' | 'array' }> => node.kind === 'object' || node.kind === 'array';
+
+const errorClass = (flagged: Set<string>, path: (string | number)[]) => (flagged.has(formatPath(path)) ? 'border-destructive' : '');
+
+const ValueEditor: FC<NodeProps> = ({ node, schema, path, flagged, onChange }) => {
+    const className = `h-8 flex-1 ${errorClass(flagged, path)}`;
+    switch (node.kind) {
+        case 'string': {
+            const options = schema?.enum?.filter((option): option is string => typeof option === 'string');
+            if (!options?.length) return <Input className={className} value={node.value} onChange={e => onChange({ kind: 'string', value: e.target.value })} />;
+            return (
+                <NativeSelect className={className} value={node.value} onChange={e => onChange({ kind: 'string', value: e.target.value })}>
+                    {!options.includes(node.value) && <option value={node.value}>{node.value || '(empty)'}</option>}
+                    {options.map(option => <option key={option} value={option}>{option}</option>)}
+                </NativeSelect>
+            );
+        }
+        case 'number':
+            return <Input className={className} inputMode="decimal" value={node.value} onChange={e => onChange({ kind: 'number', value: e.target.value })} />;
+        case 'boolean':
+            return (
+                <NativeSelect className={className} value={String(node.value)} onChange={e => onChange({ kind: 'boolean', value: e.target.value === 'true' })}>
+                    <option value="true">true</option>
+                    <option value="false">false</option>
+                </NativeSelect>
+            );
+        default:
+            return <span className="flex-1 text-sm text-muted-foreground">null</span>;
+    }
+};
+
+// One key or array item: its label, a type picker, and its value inline, or its children below.
+const EntryRow: FC<NodeProps & { label: ReactNode; onRemove?: () => void }> = ({ label, onRemove, ...props }) => {
+    const { node, schema, onChange } = props;
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center gap-2">
+                {label}
+                <NativeSelect
+                    aria-label="Type"
+                    className="h-8 w-28"
+                    value={node.kind}
+                    onChange={e => onChange(emptyNode(e.target.value as AttributeNodeKind, schema))}
+                >
+                    {NODE_KINDS.map(kind => <option key={kind} value={kind}>{kind}</option>)}
+                </NativeSelect>
+                {isContainer(node) ? <span className="flex-1 text-xs text-muted-foreground">{node.kind === 'object' ? `${node.entries.length} key(s)` : `${node.items.length} item(s)`}</span> : <ValueEditor {...props} />}
+                {onRemove && (
+                    <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Remove" onClick={onRemove}>
+                        <Trash2 className="h-4 w-4" />
+                    </Button>
+                )}
+            </div>
+            {isContainer(node) && <ChildrenEditor {...props} />}
+        </div>
+    );
+};
+
+const ChildrenEditor: FC<NodeProps> = ({ node, schema, path, flagged, onChange }) => {
+    const keyListId = useId();
+    if (node.kind === 'array') {
+        const setItems = (items: AttributeNode[]) => onChange({ kind: 'array', items });
+        return (
+            <div className="space-y-2 border-l pl-4 ml-2">
+                {node.items.map((item, i) => (
+                    <EntryRow
+                        key={i}
+                        label={<span className="w-40 text-sm text-muted-foreground">[{i}]</span>}
+                        node={item}
+                        schema={childSchema(schema, i)}
+                        path={[...path, i]}
+                        flagged={flagged}
+                        onChange={changed => setItems(node.items.map((it, j) => (j === i ? changed : it)))}
+                        onRemove={() => setItems(node.items.filter((_, j) => j !== i))}
+                    />
+                ))}
+                <Button variant="outline" size="sm" onClick={() => setItems([...node.items, emptyNode(nodeKindFor(schema?.items), schema?.items)])}>
+                    <Plus className="mr-2 h-4 w-4" /> Add item
+                </Button>
+            </div>
+        );
+    }
+    if (node.kind !== 'object') return null;
+
+    const setEntries = (entries: typeof node.entries) => onChange({ kind: 'object', entries });
+    const used = new Set(node.entries.map(e => e.key.trim()));
+    const unusedKeys = Object.keys(schema?.properties ?? {}).filter(key => !used.has(key));
+    // New keys start with the schema's next unused property, so required attributes are quick to fill in.
+    const addEntry = () => {
+        const key = unusedKeys[0] ?? '';
+        const property = childSchema(schema, key);
+        setEntries([...node.entries, { key, node: emptyNode(nodeKindFor(property), property) }]);
+    };
+
+    return (
+        <div className="space-y-2 border-l pl-4 ml-2">
+            {node.entries.map(({ key, node: child }, i) => (
+                <EntryRow
+                    key={i}
+                    label={
+                        <Input
+                            aria-label="Key"
+                            placeholder="key"
+                            list={keyListId}
+                            className={`h-8 w-40 font-mono ${errorClass(flagged, [...path, key.trim()])}`}
+                            value={key}
+                            onChange={e => setEntries(node.entries.map((entry, j) => (j === i ? { ...entry, key: e.target.value } : entry)))}
+                        />
+                    }
+                    node={child}
+                    schema={childSchema(schema, key.trim())}
+                    path={[...path, key.trim()]}
+                    flagged={flagged}
+                    onChange={changed => setEntries(node.entries.map((entry, j) => (j === i ? { ...entry, node: changed } : entry)))}
+                    onRemove={() => setEntries(node.entries.filter((_, j) => j !== i))}
+                />
+            ))}
+            <datalist id={keyListId}>
+                {unusedKeys.map(key => <option key={key} value={key} />)}
+            </datalist>
+            <Button variant="outline" size="sm" onClick={addEntry}>
+                <Plus className="mr-2 h-4 w-4" /> Add key
+            </Button>
+        </div>
+    );
+};
+
+const IssueList: FC<{ issues: AttributeIssue[]; className: string }> = ({ issues, className }) => (
+    <ul className={`space-y-1 text-sm ${className}`}>
+        {issues.map((issue, i) => (
+            <li key={i} className="flex gap-2">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span><code className="font-mono">{issue.path}</code> {issue.message}</span>
+            </li>
+        ))}
+    </ul>
+);
+
+// Edits AttributesJSON as a tree of keys and values, or as JSON text. Values that break the
+// attribute schema can still be saved, and are listed with the other validation errors; only
+// text that cannot be written as JSON blocks saving.
+export const AttributesEditor: FC<AttributesEditorProps> = ({ title, value, schema, onSave, onCancel }) => {
+    const [initial] = useState(() => parseAttributes(value));
+    const [root, setRoot] = useState(() => toAttributeNode(initial.value ?? {}));
+    // Non-null while the JSON text is edited directly. Attributes that are not valid JSON open here.
+    const [rawText, setRawText] = useState<string | null>(initial.error ? value ?? '' : null);
+
+    const tree = useMemo(() => fromAttributeNode(root), [root]);
+    const raw = rawText === null ? null : parseAttributes(rawText);
+    const current = raw ? raw.value ?? {} : tree.value;
+    const blocking: AttributeIssue[] = raw ? (raw.error ? [{ path: '$', message: raw.error }] : []) : tree.issues;
+    const schemaIssues = blocking.length === 0 && schema ? checkAttributes(current, schema) : [];
+    const flagged = new Set([...blocking, ...schemaIssues].map(issue => issue.path));
+
+    const switchToTree = () => {
+        if (!raw || raw.error) return;
+        setRoot(toAttributeNode(raw.value ?? {}));
+        setRawText(null);
+    };
+
+    // An empty object clears the field.
+    const save = () => {
+        const empty = typeof current === 'object' && current !== null && !Array.isArray(current) && Object.keys(current).length === 0;
+        onSave(empty ? '' : JSON.stringify(current));
+    };
+
+    return (
+        <Dialog open onOpenChange={isOpen => !isOpen && onCancel()}>
+            <DialogContent className="sm:max-w-3xl">
+                <DialogHeader>
+                    <DialogTitle>{title}</DialogTitle>
+                    <DialogDescription>
+                        {schema ? 'Checked against the workspace attribute schema as you edit.' : 'No attribute schema is set for this workspace.'}
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+                    {rawText !== null ? (
+                        <Textarea
+                            aria-label="Attributes JSON"
+                            className="font-mono text-xs min-h-48"
+                            value={rawText}
+                            onChange={e => setRawText(e.target.value)}
+                        />
+                    ) : (
+                        <EntryRow label={<span className="w-40 font-mono text-sm">$</span>} node={root} schema={schema ?? undefined} path={[]} flagged={flagged} onChange={setRoot} />
+                    )}
+                    {blocking.length > 0 && <IssueList issues={blocking} className="text-destructive" />}
+                    {schemaIssues.length > 0 && (
+                        <div className="space-y-1">
+                            <p className="text-sm font-medium">Does not match the attribute schema</p>
+                            <IssueList issues={schemaIssues} className="text-amber-700" />
+                        </div>
+                    )}
+                </div>
+                <DialogFooter className="sm:justify-between">
+                    {rawText !== null ? (
+                        <Button variant="ghost" onClick={switchToTree} disabled={!raw || !!raw.error}>
+                            <ListTree className="mr-2 h-4 w-4" /> Edit as tree
+                        </Button>
+                    ) : (
+                        <Button variant="ghost" onClick={() => setRawText(JSON.stringify(tree.value, null, 2))} disabled={tree.issues.length > 0}>
+                            <Braces className="mr-2 h-4 w-4" /> Edit as JSON
+                        </Button>
+                    )}
+                    <div className="flex gap-2">
+                        <Button variant="ghost" onClick={onCancel}>Cancel</Button>
+                        <Button onClick={save} disabled={blocking.length > 0}>Save</Button>
+                    </div>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1,156 @@
+"use client";
+
+import { FC, ReactNode, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { ColumnMapping, EntityType, ImportMode } from '@/types';
+import { ENTITY_FIELDS, ColumnSuggestion, columnSamples, missingRequiredFields } from '@/lib/column-mapping';
+import { IMPORT_MODES } from '@/lib/import-merge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Button } from './ui/button';
+import { NativeSelect } from './ui/native-select';
+
+interface ColumnMappingDialogProps {
+    fileName: string;
+    entityType: EntityType;
+    rows: Record<string, unknown>[];
+    suggestions: ColumnSuggestion[];
+    // A mapping confirmed earlier for a file with the same columns; it takes precedence over the suggestions.
+    saved?: ColumnMapping[];
+    // A mapping already chosen in this session; it takes precedence over both.
+    initial?: ColumnMapping[];
+    confirmLabel?: string;
+    // How the file was read, shown above the columns so it can be corrected.
+    settingsPanel?: ReactNode;
+    // Shown as a choice when set; left out when the dialog only reviews a mapping.
+    mode?: ImportMode;
+    onModeChange?: (mode: ImportMode) => void;
+    onConfirm: (mapping: ColumnMapping[], remember: boolean) => void;
+    onCancel: () => void;
+}
+
+const scoreClass = (score: number) =>
+    score >= 0.9 ? 'bg-green-100 text-green-800' : score >= 0.75 ? 'bg-yellow-100 text-yellow-800' : 'bg-orange-100 text-orange-800';
+
+export const ColumnMappingDialog: FC<ColumnMappingDialogProps> = ({ fileName, entityType, rows, suggestions, saved, initial, confirmLabel, settingsPanel, mode, onModeChange, onConfirm, onCancel }) => {
+    const [mapping, setMapping] = useState<ColumnMapping[]>(() => {
+        const chosen = initial ?? saved;
+        return suggestions.map(s => ({ source: s.source, target: chosen ? chosen.find(m => m.source === s.source)?.target ?? null : s.target }));
+    });
+    const [remember, setRemember] = useState(true);
+
+    const missing = missingRequiredFields(entityType, mapping);
+    const skipped = mapping.filter(m => !m.target);
+    const setTarget = (source: string, target: string | null) =>
+        setMapping(mapping.map(m => m.source === source ? { ...m, target } : m));
+
+    return (
+        <Dialog open onOpenChange={isOpen => !isOpen && onCancel()}>
+            <DialogContent className="sm:max-w-4xl">
+                <DialogHeader>
+                    <DialogTitle>Map columns from {fileName}</DialogTitle>
+                    <DialogDescription>
+                        {saved && !initial
+                            ? 'These columns match a mapping you saved before. Check it and import.'
+                            : `Choose which ${entityType.slice(0, -1)} field each column fills. Columns set to "Ignore" are not imported.`}
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="max-h-[60vh] overflow-y-auto space-y-4">
+                    {settingsPanel}
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Column in file</TableHead>
+                                <TableHead>Sample values</TableHead>
+                                <TableHead>Import as</TableHead>
+                                <TableHead>Match</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {mapping.map(({ source, target }) => {
+                                const suggestion = suggestions.find(s => s.source === source)!;
+                                const usedElsewhere = new Set(mapping.filter(m => m.source !== source && m.target).map(m => m.target));
+                                return (
+                                    <TableRow key={source}>
+                                        <TableCell className="font-medium">{source}</TableCell>
+                                        <TableCell className="text-xs text-muted-foreground max-w-64 truncate">
+                                            {columnSamples(rows, source).join(' · ') || 'empty'}
+                                        </TableCell>
+                                        <TableCell>
+                                            <NativeSelect
+                                                aria-label={`Field for column ${source}`}
+                                                value={target ?? ''}
+                                                onChange={e => setTarget(source, e.target.value || null)}
+                                            >
+                                                <option value="">Ignore column</option>
+                                                {ENTITY_FIELDS[entityType].map(field => (
+                                                    <option key={field} value={field} disabled={usedElsewhere.has(field)}>
+                                                        {field}{usedElsewhere.has(field) ? ' (used)' : ''}
+                                                    </option>
+                                                ))}
+                                            </NativeSelect>
+                                        </TableCell>
+                                        <TableCell>
+                                            {suggestion.target && suggestion.target === target ? (
+                                                <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${scoreClass(suggestion.score)}`}>
+                                                    {Math.round(suggestion.score * 100)}%
+                                                </span>
+                                            ) : (
+                                                <span className="text-xs text-muted-foreground">{target ? 'manual' : '—'}</span>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                );
+                            })}
+                        </TableBody>
+                    </Table>
+
+                    {skipped.length > 0 && (
+                        <div className="text-sm">
+                            <p className="font-semibold">Not imported ({skipped.length})</p>
+                            <ul className="list-disc pl-5">
+                                {skipped.map(({ source }) => (
+                                    <li key={source}>
+                                        {source}{' '}
+                                        <span className="text-muted-foreground">
+                                            {suggestions.find(s => s.source === source)?.target ? '(ignored)' : '(no matching field)'}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    {missing.length > 0 && (
+                        <p className="flex gap-2 text-sm text-amber-700">
+                            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                            Map a column to {missing.join(', ')}; rows are matched by it and nothing can be imported without it.
+                        </p>
+                    )}
+                    {mode && onModeChange && (
+                        <div className="space-y-1 text-sm">
+                            <label htmlFor="import-mode" className="font-semibold">Existing {entityType}</label>
+                            <NativeSelect id="import-mode" className="w-64" value={mode} onChange={e => onModeChange(e.target.value as ImportMode)}>
+                                {(Object.keys(IMPORT_MODES) as ImportMode[]).map(m => (
+                                    <option key={m} value={m}>{IMPORT_MODES[m].label}</option>
+                                ))}
+                            </NativeSelect>
+                            <p className="text-muted-foreground">{IMPORT_MODES[mode].description}</p>
+                        </div>
+                    )}
+                </div>
+                <DialogFooter className="sm:justify-between">
+                    <label className="flex items-center gap-2 text-sm">
+                        <input type="checkbox" checked={remember} onChange={e => setRemember(e.target.checked)} />
+                        Remember this mapping for files with these columns
+                    </label>
+                    <div className="flex gap-2">
+                        <Button variant="ghost" onClick={onCancel}>Cancel</Button>
+                        <Button disabled={missing.length > 0} onClick={() => onConfirm(mapping, remember)}>
+                            {confirmLabel ?? `Import ${rows.length} Row(s)`}
+                        </Button>
+                    </div>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
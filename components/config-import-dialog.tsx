@@ -0,0 +1,66 @@
+"use client";
+
+import { FC, ReactNode } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+
+export interface ImportDiffSection {
+    title: string;
+    items: ReactNode[];
+    // Only applies when the user replaces; merging keeps these.
+    replaceOnly?: boolean;
+}
+
+interface ConfigImportDialogProps {
+    open: boolean;
+    title: string;
+    description: string;
+    warnings: string[];
+    sections: ImportDiffSection[];
+    onReplace: () => void;
+    onMerge: () => void;
+    onCancel: () => void;
+}
+
+export const ConfigImportDialog: FC<ConfigImportDialogProps> = ({ open, title, description, warnings, sections, onReplace, onMerge, onCancel }) => {
+    const nonEmpty = sections.filter(s => s.items.length > 0);
+    return (
+        <Dialog open={open} onOpenChange={isOpen => !isOpen && onCancel()}>
+            <DialogContent className="sm:max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle>{title}</DialogTitle>
+                    <DialogDescription>{description}</DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 max-h-96 overflow-y-auto text-sm">
+                    {warnings.length > 0 && (
+                        <div className="space-y-1 text-amber-700">
+                            {warnings.map((warning, index) => (
+                                <p key={index} className="flex gap-2">
+                                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" /> {warning}
+                                </p>
+                            ))}
+                        </div>
+                    )}
+                    {nonEmpty.length === 0 ? (
+                        <p className="text-muted-foreground">The file matches the current configuration.</p>
+                    ) : nonEmpty.map(section => (
+                        <div key={section.title}>
+                            <p className="font-semibold">
+                                {section.title} ({section.items.length}){section.replaceOnly && <span className="font-normal text-muted-foreground"> · replace only</span>}
+                            </p>
+                            <ul className="list-disc pl-5 space-y-1">
+                                {section.items.map((item, index) => <li key={index}>{item}</li>)}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+                <DialogFooter>
+                    <Button variant="ghost" onClick={onCancel}>Cancel</Button>
+                    <Button variant="secondary" onClick={onMerge}>Merge</Button>
+                    <Button onClick={onReplace}>Replace</Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
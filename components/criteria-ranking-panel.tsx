@@ -0,0 +1,171 @@
+"use client";
+
+import React, { FC, useEffect, useRef, useState } from 'react';
+import { GripVertical, MinusCircle, PlusCircle } from 'lucide-react';
+import { CriterionKey, Priorities, RankWeightScheme, WeightingSettings } from '@/types';
+import { CRITERIA } from '@/lib/criteria';
+import { RANK_WEIGHT_SCHEMES, rankWeights } from '@/lib/rank-weights';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { NativeSelect } from './ui/native-select';
+
+interface CriteriaRankingPanelProps {
+    weights: Priorities;
+    weighting: WeightingSettings;
+    onChange: (weights: Priorities, weighting: WeightingSettings) => void;
+}
+
+const labelOf = (key: CriterionKey) => CRITERIA.find(c => c.key === key)!.label;
+
+export const CriteriaRankingPanel: FC<CriteriaRankingPanelProps> = ({ weights, weighting, onChange }) => {
+    const [draggedKey, setDraggedKey] = useState<CriterionKey | null>(null);
+    const [dropTargetKey, setDropTargetKey] = useState<CriterionKey | null>(null);
+    const [announcement, setAnnouncement] = useState('');
+    const handleRefs = useRef(new Map<CriterionKey, HTMLButtonElement>());
+    const pendingFocusKey = useRef<CriterionKey | null>(null);
+
+    const { ranking, scheme } = weighting;
+    const derived = rankWeights(ranking, scheme);
+    const excluded = CRITERIA.map(c => c.key).filter(key => !ranking.includes(key));
+    const outOfSync = CRITERIA.some(c => derived[c.key] !== weights[c.key]);
+
+    // Moving a criterion re-renders the list from the saved order; keep keyboard focus on its handle.
+    useEffect(() => {
+        if (!pendingFocusKey.current) return;
+        handleRefs.current.get(pendingFocusKey.current)?.focus();
+        pendingFocusKey.current = null;
+    }, [ranking]);
+
+    const update = (changes: Partial<WeightingSettings>) => {
+        const next = { ...weighting, ...changes };
+        onChange(rankWeights(next.ranking, next.scheme), next);
+    };
+
+    const moveCriterion = (key: CriterionKey, toIndex: number) => {
+        const fromIndex = ranking.indexOf(key);
+        if (fromIndex === -1 || toIndex < 0 || toIndex >= ranking.length || toIndex === fromIndex) return;
+        const reordered = ranking.slice();
+        reordered.splice(fromIndex, 1);
+        reordered.splice(toIndex, 0, key);
+        update({ ranking: reordered });
+        setAnnouncement(`${labelOf(key)} moved to rank ${toIndex + 1} of ${ranking.length}.`);
+    };
+
+    const handleReorderKey = (e: React.KeyboardEvent, key: CriterionKey, index: number) => {
+        const targets: Record<string, number> = { ArrowUp: index - 1, ArrowDown: index + 1, Home: 0, End: ranking.length - 1 };
+        if (!(e.key in targets)) return;
+        e.preventDefault();
+        pendingFocusKey.current = key;
+        moveCriterion(key, targets[e.key]);
+    };
+
+    const handleDrop = (targetKey: CriterionKey) => {
+        if (draggedKey) moveCriterion(draggedKey, ranking.indexOf(targetKey));
+        setDraggedKey(null);
+        setDropTargetKey(null);
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="space-y-2">
+                <Label htmlFor="rank-scheme" className="font-semibold">Weighting scheme</Label>
+                <NativeSelect
+                    id="rank-scheme"
+                    className="w-64"
+                    value={scheme}
+                    onChange={e => update({ scheme: e.target.value as RankWeightScheme })}
+                >
+                    {(Object.keys(RANK_WEIGHT_SCHEMES) as RankWeightScheme[]).map(s => (
+                        <option key={s} value={s}>{RANK_WEIGHT_SCHEMES[s].label}</option>
+                    ))}
+                </NativeSelect>
+                <p className="text-sm text-muted-foreground">{RANK_WEIGHT_SCHEMES[scheme].description}</p>
+            </div>
+
+            {outOfSync && (
+                <div className="flex items-center justify-between gap-4 border rounded-md p-3 text-sm">
+                    <span>The current weights were set another way. Apply this ranking to replace them.</span>
+                    <Button size="sm" onClick={() => update({})}>Apply Ranking</Button>
+                </div>
+            )}
+
+            <div className="space-y-2">
+                <Label className="font-semibold">Most important first</Label>
+                <p className="text-sm text-muted-foreground">Drag a criterion by its handle, or focus the handle and use the arrow keys, to reorder.</p>
+                <ol className="space-y-2">
+                    {ranking.map((key, index) => (
+                        <li
+                            key={key}
+                            data-criterion-card
+                            onDragOver={e => {
+                                if (!draggedKey) return;
+                                e.preventDefault();
+                                setDropTargetKey(key);
+                            }}
+                            onDrop={e => {
+                                e.preventDefault();
+                                handleDrop(key);
+                            }}
+                            className={`flex items-center gap-3 border rounded-md p-2 bg-secondary/50 ${key === dropTargetKey && draggedKey !== key ? 'border-primary border-dashed' : ''}`}
+                        >
+                            <Button
+                                ref={el => {
+                                    if (el) handleRefs.current.set(key, el);
+                                    else handleRefs.current.delete(key);
+                                }}
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7 cursor-grab"
+                                draggable
+                                aria-label={`Reorder ${labelOf(key)}, rank ${index + 1}. Use arrow keys to move it up or down.`}
+                                onKeyDown={e => handleReorderKey(e, key, index)}
+                                onDragStart={e => {
+                                    const card = e.currentTarget.closest('[data-criterion-card]');
+                                    if (card) e.dataTransfer.setDragImage(card, 0, 0);
+                                    e.dataTransfer.effectAllowed = 'move';
+                                    setDraggedKey(key);
+                                }}
+                                onDragEnd={() => {
+                                    setDraggedKey(null);
+                                    setDropTargetKey(null);
+                                }}
+                            >
+                                <GripVertical className="h-4 w-4" />
+                            </Button>
+                            <span className="font-mono text-xs text-muted-foreground w-6">#{index + 1}</span>
+                            <span className="flex-1 text-sm font-medium">{labelOf(key)}</span>
+                            <div className="w-32 h-2 rounded-full bg-muted overflow-hidden">
+                                <div className="h-full bg-primary" style={{ width: `${derived[key]}%` }} />
+                            </div>
+                            <span className="font-bold text-primary w-12 text-right">{derived[key]}%</span>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                disabled={ranking.length === 1}
+                                onClick={() => update({ ranking: ranking.filter(k => k !== key) })}
+                            >
+                                <MinusCircle className="h-4 w-4" />
+                                <span className="sr-only">Leave {labelOf(key)} out of the ranking</span>
+                            </Button>
+                        </li>
+                    ))}
+                </ol>
+                <p className="sr-only" aria-live="polite">{announcement}</p>
+            </div>
+
+            {excluded.length > 0 && (
+                <div className="space-y-2">
+                    <Label className="font-semibold">Not ranked (weight 0%)</Label>
+                    <div className="flex flex-wrap gap-2">
+                        {excluded.map(key => (
+                            <Button key={key} variant="outline" size="sm" onClick={() => update({ ranking: [...ranking, key] })}>
+                                <PlusCircle className="mr-2 h-4 w-4" /> {labelOf(key)}
+                            </Button>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
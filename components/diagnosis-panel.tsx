@@ -0,0 +1,54 @@
+"use client";
+
+import { FC } from 'react';
+import { Ban } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Conflict, Rule } from '@/types';
+import { RULE_LABELS } from '@/lib/rules';
+import { Button } from './ui/button';
+
+interface DiagnosisPanelProps {
+    conflicts: Conflict[];
+    rules: Rule[];
+    onDisableRule: (ruleId: string) => void;
+}
+
+export const DiagnosisPanel: FC<DiagnosisPanelProps> = ({ conflicts, rules, onDisableRule }) => {
+    if (conflicts.length === 0) return null;
+
+    return (
+        <Alert variant="destructive" className="border-orange-500">
+            <Ban className="h-4 w-4" />
+            <AlertTitle>Infeasible Constraints ({conflicts.length} found)</AlertTitle>
+            <AlertDescription>
+                <p>Each entry lists the smallest set of rules and fields that cannot all hold together. Relaxing any one of them resolves it.</p>
+                <ul className="mt-2 space-y-3 max-h-64 overflow-y-auto w-full">
+                    {conflicts.map((conflict, index) => (
+                        <li key={index} className="space-y-1">
+                            <p>
+                                <span className="font-semibold">{conflict.kind.replace(/_/g, ' ')}:</span> {conflict.message}
+                            </p>
+                            <div className="flex flex-wrap items-center gap-2">
+                                {conflict.refs.map((ref, refIndex) => {
+                                    if (ref.kind === 'row') {
+                                        return (
+                                            <span key={refIndex} className="text-xs bg-secondary text-secondary-foreground px-2 py-0.5 rounded-full">
+                                                {ref.id}{ref.field ? `.${ref.field}` : ''}
+                                            </span>
+                                        );
+                                    }
+                                    const ruleIndex = rules.findIndex(r => r.id === ref.ruleId);
+                                    return (
+                                        <Button key={refIndex} variant="outline" size="sm" onClick={() => onDisableRule(ref.ruleId)}>
+                                            Disable Rule #{ruleIndex + 1} ({rules[ruleIndex] && RULE_LABELS[rules[ruleIndex].type]})
+                                        </Button>
+                                    );
+                                })}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            </AlertDescription>
+        </Alert>
+    );
+};
@@ -1,6 +1,6 @@
 "use client";
 
-import { FC } from 'react';
+import { FC, useState } from 'react';
 import {
   Table,
   TableBody,
@@ -11,7 +11,11 @@ import {
 } from "@/components/ui/table";
 import { Input } from './ui/input';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { EntityType, ValidationError } from '@/types';
+import { Button } from './ui/button';
+import { AttributesEditor } from './attributes-editor';
+import { AttributeSchema, EntityType, ValidationError } from '@/types';
+import { ENTITY_SCHEMAS } from '@/lib/normalize';
+import { matchesAttributeQuery, parseAttributeQuery } from '@/lib/attributes';
 
 interface EditableTableProps {
     entityType: EntityType;
@@ -19,9 +23,16 @@ interface EditableTableProps {
     errors: ValidationError[];
     onUpdate: (rowIndex: number, field: string, value: any, entityType: EntityType) => void | Promise<void>;
     searchTerm: string;
+    highlight?: { id: string; field?: string };
+    // Checked while client attributes are edited.
+    attributeSchema?: AttributeSchema | null;
 }
 
-export const EditableTable: FC<EditableTableProps> = ({ entityType, data, errors, onUpdate, searchTerm }) => {
+const idKeys: { [key in EntityType]: string } = { clients: 'ClientID', workers: 'WorkerID', tasks: 'TaskID' };
+
+export const EditableTable: FC<EditableTableProps> = ({ entityType, data, errors, onUpdate, searchTerm, highlight, attributeSchema = null }) => {
+    const [editingJson, setEditingJson] = useState<{ row: any; field: string } | null>(null);
+
     if (data.length === 0) {
         return <p className="text-muted-foreground text-center py-8">No data loaded. Please upload a file.</p>;
     }
@@ -29,8 +40,13 @@ export const EditableTable: FC<EditableTableProps> = ({ entityType, data, errors
     const headers = Object.keys(data[0]).filter(h => h !== 'id');
     const entityIdKey = headers[0];
 
+    const isHighlighted = (row: any) => highlight !== undefined && row[idKeys[entityType]] === highlight.id;
+
     const filteredData = data.filter(row => {
-    if (!searchTerm) return true;
+    if (!searchTerm || isHighlighted(row)) return true;
+    const attributeQuery = parseAttributeQuery(searchTerm);
+    if (attributeQuery) return matchesAttributeQuery(row.AttributesJSON, attributeQuery);
+
     const lowerSearchTerm = searchTerm.toLowerCase();
 
     const match = lowerSearchTerm.match(/(duration|prioritylevel)\s*(>|<|=)\s*(\d+)/);
@@ -64,37 +80,69 @@ export const EditableTable: FC<EditableTableProps> = ({ entityType, data, errors
     }
 
     return (
-        <Table>
-            <TableHeader>
-                <TableRow>
-                    {headers.map(header => <TableHead key={header}>{header}</TableHead>)}
-                </TableRow>
-            </TableHeader>
-            <TableBody>
-                {filteredData.map((row, rowIndex) => (
-                    <TableRow key={row.id}>
-                        {headers.map(header => {
-                            const errorMsg = getCellError(row[entityIdKey], header);
-                            return (
-                                <TableCell key={`${row.id}-${header}`} className={errorMsg ? "bg-destructive/10" : ""}>
-                                    <TooltipProvider delayDuration={100}>
-                                        <Tooltip>
-                                            <TooltipTrigger asChild>
-                                                <Input
-                                                    defaultValue={Array.isArray(row[header]) ? row[header].join(', ') : row[header] ?? ''}
-                                                    onBlur={(e) => onUpdate(rowIndex, header, e.target.value, entityType)}
-                                                    className={`h-8 border-transparent hover:border-border focus-visible:ring-1 focus-visible:ring-ring ${errorMsg ? 'border-destructive focus-visible:ring-destructive' : ''}`}
-                                                />
-                                            </TooltipTrigger>
-                                            {errorMsg && <TooltipContent><p>{errorMsg}</p></TooltipContent>}
-                                        </Tooltip>
-                                    </TooltipProvider>
-                                </TableCell>
-                            );
-                        })}
+        <>
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        {headers.map(header => <TableHead key={header}>{header}</TableHead>)}
                     </TableRow>
-                ))}
-            </TableBody>
-        </Table>
+                </TableHeader>
+                <TableBody>
+                    {filteredData.map(row => (
+                        <TableRow
+                            key={row.id}
+                            ref={isHighlighted(row) ? (el: HTMLTableRowElement | null) => el?.scrollIntoView({ behavior: 'smooth', block: 'center' }) : undefined}
+                            className={isHighlighted(row) ? "bg-yellow-100" : ""}
+                        >
+                            {headers.map(header => {
+                                const errorMsg = getCellError(row[entityIdKey], header);
+                                const isFocusedCell = isHighlighted(row) && highlight?.field === header;
+                                const isJson = ENTITY_SCHEMAS[entityType][header] === 'json';
+                                const cellClassName = `h-8 border-transparent hover:border-border focus-visible:ring-1 focus-visible:ring-ring ${errorMsg ? 'border-destructive focus-visible:ring-destructive' : ''}`;
+                                return (
+                                    <TableCell key={`${row.id}-${header}`} className={errorMsg ? "bg-destructive/10" : isFocusedCell ? "ring-2 ring-yellow-500 ring-inset" : ""}>
+                                        <TooltipProvider delayDuration={100}>
+                                            <Tooltip>
+                                                <TooltipTrigger asChild>
+                                                    {isJson ? (
+                                                        <Button
+                                                            variant="outline"
+                                                            className={`w-full max-w-64 justify-start font-mono text-xs ${cellClassName}`}
+                                                            onClick={() => setEditingJson({ row, field: header })}
+                                                        >
+                                                            <span className="truncate">{row[header] || <span className="text-muted-foreground">Add attributes</span>}</span>
+                                                        </Button>
+                                                    ) : (
+                                                        <Input
+                                                            defaultValue={Array.isArray(row[header]) ? row[header].join(', ') : row[header] ?? ''}
+                                                            onBlur={(e) => onUpdate(data.indexOf(row), header, e.target.value, entityType)}
+                                                            className={cellClassName}
+                                                        />
+                                                    )}
+                                                </TooltipTrigger>
+                                                {errorMsg && <TooltipContent><p>{errorMsg}</p></TooltipContent>}
+                                            </Tooltip>
+                                        </TooltipProvider>
+                                    </TableCell>
+                                );
+                            })}
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+            {editingJson && (
+                <AttributesEditor
+                    key={editingJson.row.id}
+                    title={`${editingJson.row[entityIdKey]} · ${editingJson.field}`}
+                    value={editingJson.row[editingJson.field]}
+                    schema={entityType === 'clients' ? attributeSchema : null}
+                    onSave={json => {
+                        setEditingJson(null);
+                        onUpdate(data.indexOf(editingJson.row), editingJson.field, json, entityType);
+                    }}
+                    onCancel={() => setEditingJson(null)}
+                />
+            )}
+        </>
     );
 };
\ No newline at end of file
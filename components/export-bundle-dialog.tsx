@@ -0,0 +1,105 @@
+"use client";
+
+import { FC, useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Archive, FileSpreadsheet, Package } from 'lucide-react';
+import { AttributeSchema, ValidationError } from '@/types';
+import { BundleData, BundleFormat, bundleFiles, buildWorkbookBundle, buildZipBundle } from '@/lib/export-bundle';
+import { PipelineCancelledError } from '@/lib/import-pipeline';
+import { useImportPipeline } from '@/hooks/use-import-pipeline';
+import { downloadBlob } from '@/lib/utils';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { toast } from 'sonner';
+
+const bundleName = (format: BundleFormat) => `data-alchemist-export-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+interface ExportBundleDialogProps extends BundleData {
+    // Client attributes are validated against it for the manifest.
+    attributeSchema: AttributeSchema | null;
+}
+
+export const ExportBundleDialog: FC<ExportBundleDialogProps> = ({ clients, workers, tasks, rules, priorities, attributeSchema }) => {
+    const [open, setOpen] = useState(false);
+    const [building, setBuilding] = useState<BundleFormat | null>(null);
+    // null while the data is being validated.
+    const [errors, setErrors] = useState<ValidationError[] | null>(null);
+    const { validate } = useImportPipeline();
+
+    const data = useMemo(() => ({ clients, workers, tasks, rules, priorities }), [clients, workers, tasks, rules, priorities]);
+    const files = useMemo(() => (open ? bundleFiles(data) : []), [open, data]);
+
+    // Validation runs in the import worker, so opening the dialog on large data does not freeze the page.
+    useEffect(() => {
+        if (!open) return;
+        let current = true;
+        setErrors(null);
+        validate(clients, workers, tasks, attributeSchema)
+            .then(result => {
+                if (current) setErrors(result);
+            })
+            .catch((error: any) => {
+                if (current && !(error instanceof PipelineCancelledError)) toast.error(`Validation failed: ${error.message}`);
+            });
+        return () => {
+            current = false;
+        };
+    }, [open, validate, clients, workers, tasks, attributeSchema]);
+
+    const exportBundle = async (format: BundleFormat) => {
+        if (!errors) return;
+        setBuilding(format);
+        try {
+            const bytes = format === 'zip' ? await buildZipBundle(data, errors) : await buildWorkbookBundle(data, errors);
+            const type = format === 'zip' ? 'application/zip' : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+            downloadBlob(new Blob([bytes], { type }), bundleName(format));
+            setOpen(false);
+        } catch (error: any) {
+            toast.error(`Failed to build the export: ${error.message}`);
+        } finally {
+            setBuilding(null);
+        }
+    };
+
+    return (
+        <>
+            <Button variant="outline" onClick={() => setOpen(true)}>
+                <Package className="mr-2 h-4 w-4" /> Export Bundle
+            </Button>
+            <Dialog open={open} onOpenChange={setOpen}>
+                <DialogContent className="sm:max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>Export bundle</DialogTitle>
+                        <DialogDescription>
+                            Everything the scheduler needs in one file, with a manifest of row counts, validation results and SHA-256 hashes.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <ul className="text-sm space-y-1">
+                        {files.map(file => (
+                            <li key={file.name} className="flex justify-between">
+                                <span className="font-mono">{file.name}</span>
+                                {file.rows !== undefined && <span className="text-muted-foreground">{file.rows} row(s)</span>}
+                            </li>
+                        ))}
+                        <li className="font-mono">manifest.json</li>
+                    </ul>
+                    {errors === null ? (
+                        <p className="text-sm text-muted-foreground">Validating the data...</p>
+                    ) : errors.length > 0 && (
+                        <p className="flex gap-2 text-sm text-amber-700">
+                            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                            The data has {errors.length} validation error(s). The bundle is still exported, and the manifest records the counts.
+                        </p>
+                    )}
+                    <DialogFooter>
+                        <Button variant="secondary" disabled={building !== null || errors === null} onClick={() => exportBundle('xlsx')}>
+                            <FileSpreadsheet className="mr-2 h-4 w-4" /> {building === 'xlsx' ? 'Building...' : 'Download XLSX'}
+                        </Button>
+                        <Button disabled={building !== null || errors === null} onClick={() => exportBundle('zip')}>
+                            <Archive className="mr-2 h-4 w-4" /> {building === 'zip' ? 'Building...' : 'Download ZIP'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+};
@@ -0,0 +1,207 @@
+"use client";
+
+import { FC, useEffect, useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Client, Worker, Task, EntityType, ValidationError } from '@/types';
+import { ImportPlan, ImportWrites, RowChange, RowChangeKind, ImportSummary, applyImportPlan, describeImport, importWrites, summarizeImportPlan } from '@/lib/import-merge';
+import { introducedErrors } from '@/lib/validation';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Button } from './ui/button';
+
+interface ImportPreviewDialogProps {
+    fileName: string;
+    plans: ImportPlan[];
+    current: { clients: Client[]; workers: Worker[]; tasks: Task[] };
+    // Runs validateData off the main thread.
+    validate: (clients: Client[], workers: Worker[], tasks: Task[]) => Promise<ValidationError[]>;
+    // dataSets are the resulting data sets, for validation; writes are what has to be saved to get there.
+    onConfirm: (
+        dataSets: Partial<Record<EntityType, any[]>>,
+        writes: Partial<Record<EntityType, ImportWrites>>,
+        summaries: { entityType: EntityType; summary: ImportSummary }[],
+    ) => void;
+    onCancel: () => void;
+}
+
+// Rows listed per data set before "Show all" is needed.
+const PREVIEW_LIMIT = 200;
+
+const KIND_CLASSES: { [K in RowChangeKind]: string } = {
+    added: 'bg-green-100 text-green-800',
+    removed: 'bg-red-100 text-red-800',
+    changed: 'bg-yellow-100 text-yellow-800',
+    unchanged: 'bg-muted text-muted-foreground',
+};
+
+const formatValue = (value: unknown) => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (Array.isArray(value)) return `[${value.join(', ')}]`;
+    return String(value);
+};
+
+const rowLabel = (change: RowChange) => {
+    const row = change.after ?? change.before;
+    const name = row.ClientName ?? row.WorkerName ?? row.TaskName;
+    return name ? `${change.key} · ${name}` : change.key;
+};
+
+// Skipped rows are keyed `${entityType}:${document id}`; this returns the document ids for one data set.
+const skippedFor = (skipped: Set<string>, entityType: EntityType) =>
+    new Set(Array.from(skipped).filter(key => key.startsWith(`${entityType}:`)).map(key => key.slice(entityType.length + 1)));
+
+export const ImportPreviewDialog: FC<ImportPreviewDialogProps> = ({ fileName, plans, current, validate, onConfirm, onCancel }) => {
+    const [skipped, setSkipped] = useState<Set<string>>(new Set());
+    const [expanded, setExpanded] = useState<Set<EntityType>>(new Set());
+
+    const dataSets = useMemo(
+        () => Object.fromEntries(plans.map(p => [p.entityType, applyImportPlan(p.changes, skippedFor(skipped, p.entityType))])) as Partial<Record<EntityType, any[]>>,
+        [plans, skipped]
+    );
+    const [baseline, setBaseline] = useState<ValidationError[] | null>(null);
+    const [newErrors, setNewErrors] = useState<ValidationError[]>([]);
+
+    useEffect(() => {
+        validate(current.clients, current.workers, current.tasks).then(setBaseline, () => setBaseline([]));
+    }, [validate, current.clients, current.workers, current.tasks]);
+
+    // Re-checked whenever the selection changes; a result that arrives after a newer selection is dropped.
+    useEffect(() => {
+        if (!baseline) return;
+        let stale = false;
+        validate(
+            (dataSets.clients ?? current.clients) as Client[],
+            (dataSets.workers ?? current.workers) as Worker[],
+            (dataSets.tasks ?? current.tasks) as Task[],
+        ).then(errors => !stale && setNewErrors(introducedErrors(baseline, errors)), () => undefined);
+        return () => {
+            stale = true;
+        };
+    }, [baseline, dataSets, validate, current.clients, current.workers, current.tasks]);
+
+    const summaries = plans.map(p => ({ entityType: p.entityType, summary: summarizeImportPlan(p.changes, skippedFor(skipped, p.entityType)) }));
+    const confirm = () => onConfirm(
+        dataSets,
+        Object.fromEntries(plans.map(p => [p.entityType, importWrites(p.changes, skippedFor(skipped, p.entityType))])),
+        summaries,
+    );
+    const pending = summaries.reduce((sum, { summary }) => sum + summary.added + summary.updated + summary.removed, 0);
+
+    const toggle = (keys: string[], include: boolean) => {
+        const next = new Set(skipped);
+        keys.forEach(key => (include ? next.delete(key) : next.add(key)));
+        setSkipped(next);
+    };
+
+    return (
+        <Dialog open onOpenChange={isOpen => !isOpen && onCancel()}>
+            <DialogContent className="sm:max-w-5xl">
+                <DialogHeader>
+                    <DialogTitle>Review changes from {fileName}</DialogTitle>
+                    <DialogDescription>
+                        Nothing has been saved yet. Untick a row to leave it as it is now, then write the rest.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="max-h-[60vh] overflow-y-auto space-y-6 text-sm">
+                    {plans.map(({ entityType, changes }) => {
+                        const visible = changes.filter(c => c.kind !== 'unchanged');
+                        const shown = expanded.has(entityType) ? visible : visible.slice(0, PREVIEW_LIMIT);
+                        const keys = visible.map(c => `${entityType}:${c.id}`);
+                        const summary = summaries.find(s => s.entityType === entityType)!.summary;
+                        return (
+                            <div key={entityType} className="space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <p className="font-semibold capitalize">{describeImport(entityType, summary)}</p>
+                                    {visible.length > 0 && (
+                                        <div className="flex gap-2">
+                                            <Button variant="ghost" size="sm" onClick={() => toggle(keys, true)}>Select all</Button>
+                                            <Button variant="ghost" size="sm" onClick={() => toggle(keys, false)}>Select none</Button>
+                                        </div>
+                                    )}
+                                </div>
+                                {visible.length === 0 ? (
+                                    <p className="text-muted-foreground">No changes.</p>
+                                ) : (
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead className="w-10"><span className="sr-only">Include</span></TableHead>
+                                                <TableHead>Change</TableHead>
+                                                <TableHead>Row</TableHead>
+                                                <TableHead>Fields</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {shown.map(change => {
+                                                const key = `${entityType}:${change.id}`;
+                                                return (
+                                                    <TableRow key={key} className={skipped.has(key) ? 'opacity-50' : ''}>
+                                                        <TableCell>
+                                                            <input
+                                                                type="checkbox"
+                                                                aria-label={`Include ${change.kind} ${change.key}`}
+                                                                checked={!skipped.has(key)}
+                                                                onChange={e => toggle([key], e.target.checked)}
+                                                            />
+                                                        </TableCell>
+                                                        <TableCell>
+                                                            <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${KIND_CLASSES[change.kind]}`}>{change.kind}</span>
+                                                        </TableCell>
+                                                        <TableCell className="font-medium">{rowLabel(change)}</TableCell>
+                                                        <TableCell>
+                                                            {change.kind === 'changed' ? (
+                                                                <ul className="space-y-0.5">
+                                                                    {change.fields.map(f => (
+                                                                        <li key={f.field}>
+                                                                            <span className="text-muted-foreground">{f.field}:</span>{' '}
+                                                                            <span className="line-through text-red-700">{formatValue(f.before)}</span>{' → '}
+                                                                            <span className="text-green-700">{formatValue(f.after)}</span>
+                                                                        </li>
+                                                                    ))}
+                                                                </ul>
+                                                            ) : (
+                                                                <span className="text-xs text-muted-foreground">
+                                                                    {Object.keys(change.after ?? change.before).filter(f => f !== 'id').length} field(s)
+                                                                </span>
+                                                            )}
+                                                        </TableCell>
+                                                    </TableRow>
+                                                );
+                                            })}
+                                        </TableBody>
+                                    </Table>
+                                )}
+                                {shown.length < visible.length && (
+                                    <Button variant="outline" size="sm" onClick={() => setExpanded(new Set(expanded).add(entityType))}>
+                                        Show all {visible.length} changes
+                                    </Button>
+                                )}
+                            </div>
+                        );
+                    })}
+
+                    {newErrors.length > 0 && (
+                        <div className="space-y-1">
+                            <p className="flex gap-2 font-semibold text-amber-700">
+                                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" /> New validation errors ({newErrors.length})
+                            </p>
+                            <ul className="list-disc pl-5">
+                                {newErrors.slice(0, PREVIEW_LIMIT).map((error, index) => (
+                                    <li key={index}>
+                                        <span className="capitalize">{error.entityType}</span> {error.id} · {error.field}: {error.message}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+                <DialogFooter>
+                    <Button variant="ghost" onClick={onCancel}>Cancel</Button>
+                    <Button disabled={pending === 0} onClick={confirm}>
+                        Write {pending} Change(s)
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1,71 @@
+"use client";
+
+import { FC } from 'react';
+import { TextEncoding, TextFormat, TextParseSettings, DELIMITERS, TEXT_ENCODINGS, TEXT_FORMATS } from '@/lib/file-import';
+import { NativeSelect } from './ui/native-select';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+interface ParseSettingsPanelProps {
+    settings: TextParseSettings;
+    // The first lines of the file as decoded with the current encoding.
+    lines: string[];
+    onChange: (settings: TextParseSettings) => void;
+}
+
+export const ParseSettingsPanel: FC<ParseSettingsPanelProps> = ({ settings, lines, onChange }) => {
+    const delimited = settings.format === 'delimited';
+    const update = (changes: Partial<TextParseSettings>) => onChange({ ...settings, ...changes });
+
+    return (
+        <div className="space-y-3 border rounded-md p-3 text-sm">
+            <div className="flex flex-wrap gap-4">
+                <div className="space-y-1">
+                    <Label htmlFor="parse-format">Format</Label>
+                    <NativeSelect id="parse-format" value={settings.format} onChange={e => update({ format: e.target.value as TextFormat })}>
+                        {(Object.keys(TEXT_FORMATS) as TextFormat[]).map(f => <option key={f} value={f}>{TEXT_FORMATS[f]}</option>)}
+                    </NativeSelect>
+                </div>
+                <div className="space-y-1">
+                    <Label htmlFor="parse-encoding">Encoding</Label>
+                    <NativeSelect id="parse-encoding" value={settings.encoding} onChange={e => update({ encoding: e.target.value as TextEncoding })}>
+                        {(Object.keys(TEXT_ENCODINGS) as TextEncoding[]).map(enc => <option key={enc} value={enc}>{TEXT_ENCODINGS[enc]}</option>)}
+                    </NativeSelect>
+                </div>
+                {delimited && (
+                    <>
+                        <div className="space-y-1">
+                            <Label htmlFor="parse-delimiter">Delimiter</Label>
+                            <NativeSelect id="parse-delimiter" value={settings.delimiter} onChange={e => update({ delimiter: e.target.value })}>
+                                {DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+                            </NativeSelect>
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="parse-header-row">Header on line</Label>
+                            <Input
+                                id="parse-header-row"
+                                type="number"
+                                min={1}
+                                max={lines.length}
+                                className="w-24"
+                                value={settings.headerRow + 1}
+                                onChange={e => {
+                                    const line = parseInt(e.target.value, 10);
+                                    if (line >= 1) update({ headerRow: line - 1 });
+                                }}
+                            />
+                        </div>
+                    </>
+                )}
+            </div>
+            <pre className="max-h-32 overflow-auto rounded bg-muted p-2 text-xs">
+                {lines.map((line, i) => (
+                    <div key={i} className={delimited && i === settings.headerRow ? 'font-bold text-primary' : delimited && i < settings.headerRow ? 'text-muted-foreground line-through' : ''}>
+                        <span className="inline-block w-6 text-right mr-2 text-muted-foreground select-none">{i + 1}</span>
+                        {line.replace(/\t/g, ' → ')}
+                    </div>
+                ))}
+            </pre>
+        </div>
+    );
+};
@@ -0,0 +1,198 @@
+"use client";
+
+import { FC, useRef, useState } from 'react';
+import { Check, Copy, Download, Pencil, RotateCcw, Save, Star, Trash2, Upload } from 'lucide-react';
+import { Priorities, PriorityPreset } from '@/types';
+import { CRITERIA, normalizeWeights } from '@/lib/criteria';
+import { validatePriorities } from '@/lib/config-import';
+import { BUILT_IN_PRESETS, defaultPreset, uniquePresetName } from '@/lib/presets';
+import { downloadJson, generateUniqueId } from '@/lib/utils';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { toast } from 'sonner';
+
+interface PriorityPresetsProps {
+    weights: Priorities;
+    presets: PriorityPreset[];
+    onApply: (weights: Priorities) => void;
+    onUpdatePresets: (presets: PriorityPreset[]) => void;
+}
+
+const presetFileName = (name: string) => `${name.trim().toLowerCase().replace(/[^\w-]+/g, '-') || 'preset'}.json`;
+
+export const PriorityPresets: FC<PriorityPresetsProps> = ({ weights, presets, onApply, onUpdatePresets }) => {
+    const [name, setName] = useState('');
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const current = defaultPreset(presets);
+    const matchesCurrent = (preset: PriorityPreset) => {
+        const normalized = normalizeWeights(preset.priorities);
+        return CRITERIA.every(c => normalized[c.key] === weights[c.key]);
+    };
+    const nameTaken = (candidate: string, exceptId?: string) =>
+        [...BUILT_IN_PRESETS, ...presets].some(p => p.id !== exceptId && p.name.toLowerCase() === candidate.toLowerCase());
+
+    const savePreset = () => {
+        const trimmed = name.trim();
+        if (!trimmed) {
+            toast.error("Please enter a preset name");
+            return;
+        }
+        if (nameTaken(trimmed)) {
+            toast.error(`A preset named "${trimmed}" already exists`);
+            return;
+        }
+        onUpdatePresets([...presets, { id: generateUniqueId(), name: trimmed, priorities: weights }]);
+        setName('');
+        toast.success(`Preset "${trimmed}" saved`);
+    };
+
+    const commitRename = () => {
+        const trimmed = renameValue.trim();
+        if (!renamingId) return;
+        if (!trimmed) {
+            setRenamingId(null);
+            return;
+        }
+        if (nameTaken(trimmed, renamingId)) {
+            toast.error(`A preset named "${trimmed}" already exists`);
+            return;
+        }
+        onUpdatePresets(presets.map(p => p.id === renamingId ? { ...p, name: trimmed } : p));
+        setRenamingId(null);
+    };
+
+    const duplicatePreset = (preset: PriorityPreset) => {
+        const copy = { id: generateUniqueId(), name: uniquePresetName(`${preset.name} copy`, presets), priorities: normalizeWeights(preset.priorities) };
+        onUpdatePresets([...presets, copy]);
+        toast.success(`Preset "${copy.name}" created`);
+    };
+
+    // Firestore rejects undefined fields, so the flag is left off rather than set to undefined.
+    const toggleDefault = (preset: PriorityPreset) => {
+        const makeDefault = !preset.isDefault;
+        onUpdatePresets(presets.map(p => ({
+            id: p.id,
+            name: p.name,
+            priorities: p.priorities,
+            ...(makeDefault && p.id === preset.id ? { isDefault: true } : {}),
+        })));
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            const result = validatePriorities(JSON.parse(await file.text()));
+            if (!result.ok) {
+                toast.error(`Invalid preset file: ${result.errors.join(' ')}`);
+                return;
+            }
+            const presetName = uniquePresetName(file.name.replace(/\.json$/i, '') || 'Imported preset', presets);
+            onUpdatePresets([...presets, { id: generateUniqueId(), name: presetName, priorities: normalizeWeights(result.priorities) }]);
+            toast.success(`Preset "${presetName}" imported`);
+        } catch (error: any) {
+            toast.error(`Failed to import preset: ${error.message}`);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-between items-center">
+                <Label className="font-semibold">Preset Profiles</Label>
+                <Button variant="ghost" size="sm" onClick={() => onApply(normalizeWeights(current.priorities))}>
+                    <RotateCcw className="mr-2 h-4 w-4" /> Reset to Default ({current.name})
+                </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+                {BUILT_IN_PRESETS.map(preset => (
+                    <Button key={preset.id} variant={matchesCurrent(preset) ? 'default' : 'secondary'} onClick={() => onApply(preset.priorities)}>
+                        {preset.name}
+                    </Button>
+                ))}
+            </div>
+
+            {presets.length > 0 && (
+                <ul className="space-y-2">
+                    {presets.map(preset => (
+                        <li key={preset.id} className={`flex items-center gap-2 border rounded-md p-2 ${matchesCurrent(preset) ? 'border-primary' : ''}`}>
+                            {renamingId === preset.id ? (
+                                <Input
+                                    autoFocus
+                                    className="h-8 flex-1"
+                                    value={renameValue}
+                                    onChange={e => setRenameValue(e.target.value)}
+                                    onBlur={commitRename}
+                                    onKeyDown={e => {
+                                        if (e.key === 'Enter') commitRename();
+                                        if (e.key === 'Escape') setRenamingId(null);
+                                    }}
+                                />
+                            ) : (
+                                <button className="flex-1 text-left text-sm font-medium hover:underline" onClick={() => onApply(normalizeWeights(preset.priorities))}>
+                                    {preset.name}
+                                    {preset.isDefault && <span className="ml-2 text-xs font-normal text-muted-foreground">default</span>}
+                                </button>
+                            )}
+                            {matchesCurrent(preset) && <Check className="h-4 w-4 text-primary" />}
+                            <Button variant="ghost" size="icon" className="h-7 w-7" title="Rename" onClick={() => { setRenamingId(preset.id); setRenameValue(preset.name); }}>
+                                <Pencil className="h-4 w-4" />
+                                <span className="sr-only">Rename {preset.name}</span>
+                            </Button>
+                            <Button variant="ghost" size="icon" className="h-7 w-7" title="Duplicate" onClick={() => duplicatePreset(preset)}>
+                                <Copy className="h-4 w-4" />
+                                <span className="sr-only">Duplicate {preset.name}</span>
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                title={preset.isDefault ? 'Unset default' : 'Set as default'}
+                                aria-pressed={!!preset.isDefault}
+                                onClick={() => toggleDefault(preset)}
+                            >
+                                <Star className={`h-4 w-4 ${preset.isDefault ? 'fill-yellow-400 text-yellow-500' : ''}`} />
+                                <span className="sr-only">{preset.isDefault ? `Unset ${preset.name} as default` : `Set ${preset.name} as default`}</span>
+                            </Button>
+                            <Button variant="ghost" size="icon" className="h-7 w-7" title="Export" onClick={() => downloadJson(normalizeWeights(preset.priorities), presetFileName(preset.name))}>
+                                <Download className="h-4 w-4" />
+                                <span className="sr-only">Export {preset.name}</span>
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7 text-red-500 hover:text-red-600"
+                                onClick={() => onUpdatePresets(presets.filter(p => p.id !== preset.id))}
+                            >
+                                <Trash2 className="h-4 w-4" />
+                                <span className="sr-only">Delete {preset.name}</span>
+                            </Button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="flex gap-2">
+                <Input value={name} onChange={e => setName(e.target.value)} placeholder="Preset name, e.g. 'Quarter-end push'" />
+                <Button onClick={savePreset}>
+                    <Save className="mr-2 h-4 w-4" /> Save Current as Preset
+                </Button>
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                    <Upload className="mr-2 h-4 w-4" /> Import Preset
+                </Button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={e => {
+                        const file = e.target.files?.[0];
+                        if (file) handleImport(file);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+        </div>
+    );
+};
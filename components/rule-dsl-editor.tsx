@@ -0,0 +1,86 @@
+"use client";
+
+import { FC, useMemo, useRef } from 'react';
+import { Check, RotateCcw } from 'lucide-react';
+import { Rule } from '@/types';
+import { parseRuleDsl, printRuleDsl, adoptRuleIds, RuleDslError } from '@/lib/rule-dsl';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Textarea } from './ui/textarea';
+import { Button } from './ui/button';
+import { toast } from 'sonner';
+
+interface RuleDslEditorProps {
+    rules: Rule[];
+    // Unapplied text, or null to show the current rules.
+    draft: string | null;
+    onDraftChange: (draft: string | null) => void;
+    onApply: (rules: Rule[]) => void;
+}
+
+export const RuleDslEditor: FC<RuleDslEditorProps> = ({ rules, draft, onDraftChange, onApply }) => {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const text = draft ?? printRuleDsl(rules);
+    const { rules: parsed, errors } = useMemo(() => parseRuleDsl(text), [text]);
+
+    const jumpTo = (error: RuleDslError) => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        const lines = text.split('\n');
+        const offset = lines.slice(0, error.line - 1).reduce((sum, line) => sum + line.length + 1, 0) + error.column - 1;
+        textarea.focus();
+        textarea.setSelectionRange(offset, offset);
+    };
+
+    const apply = () => {
+        onApply(adoptRuleIds(parsed, rules));
+        onDraftChange(null);
+        toast.success(`Applied ${parsed.length} rule(s) from text`);
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Rules as Text</CardTitle>
+                <CardDescription>
+                    One rule per line, in priority order, e.g. <code>corun T1, T2</code>, <code>exclude T3, T4</code>,{' '}
+                    <code>sequence T5 -&gt; T6 -&gt; T7</code>, <code>slots worker GroupA min 2</code>,{' '}
+                    <code>loadlimit GroupB max 3</code>, <code>window T7 phases 2..4</code> and{' '}
+                    <code>precedence corun over exclude</code>. Prefix a line with <code>disabled</code> to keep a rule
+                    switched off, quote names with spaces, and start comments with <code>#</code>.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <Textarea
+                    ref={textareaRef}
+                    value={text}
+                    onChange={e => onDraftChange(e.target.value)}
+                    rows={Math.max(6, text.split('\n').length)}
+                    spellCheck={false}
+                    aria-invalid={errors.length > 0}
+                    className="font-mono"
+                    placeholder="corun T1, T2"
+                />
+                {errors.length > 0 && (
+                    <ul className="space-y-1 text-sm text-destructive">
+                        {errors.map((error, index) => (
+                            <li key={index}>
+                                <button type="button" className="text-left hover:underline" onClick={() => jumpTo(error)}>
+                                    Line {error.line}, column {error.column}: {error.message}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <div className="flex items-center gap-2">
+                    <Button onClick={apply} disabled={draft === null || errors.length > 0}>
+                        <Check className="mr-2 h-4 w-4" /> Apply Text
+                    </Button>
+                    <Button variant="outline" onClick={() => onDraftChange(null)} disabled={draft === null}>
+                        <RotateCcw className="mr-2 h-4 w-4" /> Revert
+                    </Button>
+                    {draft !== null && <span className="text-sm text-muted-foreground">Unapplied changes</span>}
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
@@ -0,0 +1,199 @@
+"use client";
+
+import { FC, ReactNode } from 'react';
+import { Rule, SlotRestrictionRule, LoadLimitRule, PhaseWindowRule, PrecedenceOverrideRule, TaskGroupRule } from '@/types';
+import { RULE_LABELS } from '@/lib/rules';
+import { MAX_PHASE } from '@/lib/values';
+import { Input } from './ui/input';
+import { NativeSelect } from './ui/native-select';
+
+export interface RuleEditorOptions {
+    clientGroups: string[];
+    workerGroups: string[];
+    taskIds: string[];
+}
+
+interface RuleParamsEditorProps {
+    rule: Rule;
+    options: RuleEditorOptions;
+    onChange: (params: Rule['params']) => void;
+}
+
+// Keeps the saved value visible even if it no longer matches any loaded row.
+const withCurrent = (values: string[], current: string) =>
+    current && !values.includes(current) ? [current, ...values] : values;
+
+const parseNumberList = (value: string) =>
+    value.split(',').map(s => parseInt(s.trim(), 10)).filter(n => !isNaN(n));
+
+const Field: FC<{ label: string; children: ReactNode }> = ({ label, children }) => (
+    <div className="space-y-1 flex-1 min-w-40">
+        <label className="text-sm font-medium">{label}</label>
+        {children}
+    </div>
+);
+
+const SlotRestrictionEditor: FC<{ rule: SlotRestrictionRule; options: RuleEditorOptions; onChange: RuleParamsEditorProps['onChange'] }> = ({ rule, options, onChange }) => {
+    const { groupType, group, minCommonSlots } = rule.params;
+    const groups = withCurrent(groupType === 'client' ? options.clientGroups : options.workerGroups, group);
+    return (
+        <div className="mt-2 flex flex-wrap gap-4">
+            <Field label="Group type:">
+                <NativeSelect
+                    value={groupType}
+                    onChange={e => onChange({ ...rule.params, groupType: e.target.value as 'client' | 'worker', group: '' })}
+                >
+                    <option value="worker">WorkerGroup</option>
+                    <option value="client">ClientGroup</option>
+                </NativeSelect>
+            </Field>
+            <Field label="Group:">
+                <NativeSelect value={group} onChange={e => onChange({ ...rule.params, group: e.target.value })}>
+                    <option value="" disabled>Select a group</option>
+                    {groups.map(g => <option key={g} value={g}>{g}</option>)}
+                </NativeSelect>
+            </Field>
+            <Field label="Minimum common slots:">
+                <Input
+                    key={minCommonSlots}
+                    type="number"
+                    min={1}
+                    defaultValue={minCommonSlots}
+                    onBlur={e => onChange({ ...rule.params, minCommonSlots: parseInt(e.target.value, 10) })}
+                />
+            </Field>
+        </div>
+    );
+};
+
+const LoadLimitEditor: FC<{ rule: LoadLimitRule; options: RuleEditorOptions; onChange: RuleParamsEditorProps['onChange'] }> = ({ rule, options, onChange }) => {
+    const { workerGroup, maxSlotsPerPhase } = rule.params;
+    return (
+        <div className="mt-2 flex flex-wrap gap-4">
+            <Field label="WorkerGroup:">
+                <NativeSelect value={workerGroup} onChange={e => onChange({ ...rule.params, workerGroup: e.target.value })}>
+                    <option value="" disabled>Select a group</option>
+                    {withCurrent(options.workerGroups, workerGroup).map(g => <option key={g} value={g}>{g}</option>)}
+                </NativeSelect>
+            </Field>
+            <Field label="Max slots per phase:">
+                <Input
+                    key={maxSlotsPerPhase}
+                    type="number"
+                    min={0}
+                    defaultValue={maxSlotsPerPhase}
+                    onBlur={e => onChange({ ...rule.params, maxSlotsPerPhase: parseInt(e.target.value, 10) })}
+                />
+            </Field>
+        </div>
+    );
+};
+
+const PhaseWindowEditor: FC<{ rule: PhaseWindowRule; options: RuleEditorOptions; onChange: RuleParamsEditorProps['onChange'] }> = ({ rule, options, onChange }) => {
+    const { taskId, allowedPhases, range } = rule.params;
+    return (
+        <div className="mt-2 flex flex-wrap gap-4">
+            <Field label="Task:">
+                <NativeSelect value={taskId} onChange={e => onChange({ ...rule.params, taskId: e.target.value })}>
+                    <option value="" disabled>Select a task</option>
+                    {withCurrent(options.taskIds, taskId).map(id => <option key={id} value={id}>{id}</option>)}
+                </NativeSelect>
+            </Field>
+            <Field label="Window:">
+                <NativeSelect
+                    value={range ? 'range' : 'list'}
+                    onChange={e => onChange(e.target.value === 'range'
+                        ? { taskId, range: { start: Math.min(...(allowedPhases || [1])), end: Math.max(...(allowedPhases || [1])) } }
+                        : { taskId, allowedPhases: range ? Array.from({ length: range.end - range.start + 1 }, (_, i) => range.start + i) : [1] })}
+                >
+                    <option value="list">Phase list</option>
+                    <option value="range">Phase range</option>
+                </NativeSelect>
+            </Field>
+            {range ? (
+                <>
+                    <Field label="From phase:">
+                        <Input
+                            key={`start-${range.start}`}
+                            type="number"
+                            min={1}
+                            max={MAX_PHASE}
+                            defaultValue={range.start}
+                            onBlur={e => onChange({ taskId, range: { ...range, start: parseInt(e.target.value, 10) } })}
+                        />
+                    </Field>
+                    <Field label="To phase:">
+                        <Input
+                            key={`end-${range.end}`}
+                            type="number"
+                            min={1}
+                            max={MAX_PHASE}
+                            defaultValue={range.end}
+                            onBlur={e => onChange({ taskId, range: { ...range, end: parseInt(e.target.value, 10) } })}
+                        />
+                    </Field>
+                </>
+            ) : (
+                <Field label="Allowed phases (comma-separated):">
+                    <Input
+                        key={(allowedPhases || []).join(',')}
+                        defaultValue={(allowedPhases || []).join(', ')}
+                        onBlur={e => onChange({ taskId, allowedPhases: parseNumberList(e.target.value) })}
+                        placeholder="1, 2, 4"
+                    />
+                </Field>
+            )}
+        </div>
+    );
+};
+
+const RULE_FAMILIES: TaskGroupRule['type'][] = ['CO_RUN', 'EXCLUSION', 'SEQUENTIAL'];
+
+const PrecedenceOverrideEditor: FC<{ rule: PrecedenceOverrideRule; onChange: RuleParamsEditorProps['onChange'] }> = ({ rule, onChange }) => {
+    const { winner, loser } = rule.params;
+    return (
+        <div className="mt-2 flex flex-wrap gap-4">
+            <Field label="Rule family that wins:">
+                <NativeSelect value={winner} onChange={e => onChange({ ...rule.params, winner: e.target.value as TaskGroupRule['type'] })}>
+                    {RULE_FAMILIES.map(type => <option key={type} value={type}>{RULE_LABELS[type]}</option>)}
+                </NativeSelect>
+            </Field>
+            <Field label="Over rule family:">
+                <NativeSelect value={loser} onChange={e => onChange({ ...rule.params, loser: e.target.value as TaskGroupRule['type'] })}>
+                    {RULE_FAMILIES.map(type => <option key={type} value={type}>{RULE_LABELS[type]}</option>)}
+                </NativeSelect>
+            </Field>
+        </div>
+    );
+};
+
+export const RuleParamsEditor: FC<RuleParamsEditorProps> = ({ rule, options, onChange }) => {
+    switch (rule.type) {
+        case 'SLOT_RESTRICTION':
+            return <SlotRestrictionEditor rule={rule} options={options} onChange={onChange} />;
+        case 'LOAD_LIMIT':
+            return <LoadLimitEditor rule={rule} options={options} onChange={onChange} />;
+        case 'PHASE_WINDOW':
+            return <PhaseWindowEditor rule={rule} options={options} onChange={onChange} />;
+        case 'PRECEDENCE_OVERRIDE':
+            return <PrecedenceOverrideEditor rule={rule} onChange={onChange} />;
+        default:
+            return (
+                <div className="mt-2 space-y-2">
+                    <label className="text-sm font-medium">
+                        Task IDs (comma-separated):
+                    </label>
+                    <Input
+                        value={rule.params.taskIds.join(', ')}
+                        onChange={e => onChange({
+                            taskIds: e.target.value
+                                .split(',')
+                                .map(s => s.trim())
+                                .filter(Boolean)
+                        })}
+                        placeholder="T1, T2, T3"
+                    />
+                </div>
+            );
+    }
+};
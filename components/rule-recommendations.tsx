@@ -0,0 +1,103 @@
+"use client";
+
+import { FC, useState } from 'react';
+import { Check, X, HelpCircle, Lightbulb, Search } from 'lucide-react';
+import { Rule, RuleRecommendation } from '@/types';
+import { describeRule, RULE_LABELS } from '@/lib/rules';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+
+interface RuleRecommendationsProps {
+    // null until suggestions have been looked for.
+    recommendations: RuleRecommendation[] | null;
+    dismissedCount: number;
+    // The data has changed since the suggestions were found.
+    stale: boolean;
+    isFinding: boolean;
+    onFind: () => void;
+    onAccept: (recommendation: RuleRecommendation) => void;
+    onDismiss: (recommendation: RuleRecommendation) => void;
+    onRestoreDismissed: () => void;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const RuleRecommendations: FC<RuleRecommendationsProps> = ({ recommendations, dismissedCount, stale, isFinding, onFind, onAccept, onDismiss, onRestoreDismissed }) => {
+    const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex justify-between items-center">
+                    <div>
+                        <CardTitle className="flex items-center gap-2">
+                            <Lightbulb className="h-5 w-5" /> Suggested Rules
+                        </CardTitle>
+                        <CardDescription>
+                            Mined from the loaded data: task sets that clients request together, and worker groups
+                            filled to their MaxLoadPerPhase by the current plan.
+                        </CardDescription>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                        {dismissedCount > 0 && (
+                            <Button variant="ghost" size="sm" onClick={onRestoreDismissed}>
+                                Restore {dismissedCount} dismissed
+                            </Button>
+                        )}
+                        <Button variant="outline" size="sm" onClick={onFind} disabled={isFinding}>
+                            <Search className="mr-2 h-4 w-4" />
+                            {isFinding ? 'Finding...' : recommendations ? 'Find Again' : 'Find Suggestions'}
+                        </Button>
+                    </div>
+                </div>
+            </CardHeader>
+            <CardContent>
+                {stale && (
+                    <p className="mb-3 text-sm text-muted-foreground">The data has changed since these suggestions were found.</p>
+                )}
+                {recommendations === null ? (
+                    <div className="text-center py-4 text-muted-foreground">Find suggestions to mine the current data and plan for rules worth adding.</div>
+                ) : recommendations.length === 0 ? (
+                    <div className="text-center py-4 text-muted-foreground">No suggestions for the current data and rules.</div>
+                ) : (
+                    <ul className="space-y-3">
+                        {recommendations.map(recommendation => {
+                            const rule = { ...recommendation.rule, id: recommendation.key } as Rule;
+                            const expanded = expandedKey === recommendation.key;
+                            return (
+                                <li key={recommendation.key} className="border rounded-md p-3">
+                                    <div className="flex justify-between items-start gap-4">
+                                        <div>
+                                            <p className="font-medium">
+                                                {RULE_LABELS[rule.type]}: {describeRule(rule)}
+                                            </p>
+                                            <p className="text-xs text-muted-foreground">
+                                                Support {formatPercent(recommendation.support)} · Confidence {formatPercent(recommendation.confidence)}
+                                            </p>
+                                        </div>
+                                        <div className="flex gap-1 shrink-0">
+                                            <Button variant="ghost" size="sm" onClick={() => setExpandedKey(expanded ? null : recommendation.key)}>
+                                                <HelpCircle className="mr-1 h-4 w-4" /> Why?
+                                            </Button>
+                                            <Button variant="secondary" size="sm" onClick={() => onAccept(recommendation)}>
+                                                <Check className="mr-1 h-4 w-4" /> Accept
+                                            </Button>
+                                            <Button variant="ghost" size="sm" onClick={() => onDismiss(recommendation)}>
+                                                <X className="mr-1 h-4 w-4" /> Dismiss
+                                            </Button>
+                                        </div>
+                                    </div>
+                                    {expanded && (
+                                        <ul className="mt-2 list-disc pl-5 text-sm text-muted-foreground space-y-1">
+                                            {recommendation.why.map((line, index) => <li key={index}>{line}</li>)}
+                                        </ul>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
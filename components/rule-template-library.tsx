@@ -0,0 +1,212 @@
+"use client";
+
+import { FC, useMemo, useState } from 'react';
+import { BookTemplate, Save, Trash2, Wand2 } from 'lucide-react';
+import { Task, Worker, Rule, RuleTemplate, RuleTemplateKind } from '@/types';
+import { toList } from '@/lib/values';
+import { describeRule, RULE_LABELS } from '@/lib/rules';
+import { TEMPLATE_KINDS, TEMPLATE_KIND_LIST, instantiateTemplate, missingTemplateParams } from '@/lib/templates';
+import { generateUniqueId } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { NativeSelect } from './ui/native-select';
+import { toast } from 'sonner';
+
+interface RuleTemplateLibraryProps {
+    templates: RuleTemplate[];
+    tasks: Task[];
+    workers: Worker[];
+    rules: Rule[];
+    onUpdateTemplates: (templates: RuleTemplate[]) => void;
+    onAddRules: (rules: Rule[]) => void;
+}
+
+interface TemplateParamFieldsProps {
+    kind: RuleTemplateKind;
+    values: RuleTemplate['values'];
+    onChange: (values: RuleTemplate['values']) => void;
+    choices: { skill: string[]; workerGroup: string[] };
+    blankLabel: string;
+}
+
+const TemplateParamFields: FC<TemplateParamFieldsProps> = ({ kind, values, onChange, choices, blankLabel }) => (
+    <div className="flex flex-wrap gap-4">
+        {TEMPLATE_KINDS[kind].params.map(param => (
+            <div key={param.key} className="space-y-1 flex-1 min-w-40">
+                <label className="text-sm font-medium">{param.label}:</label>
+                {param.source === 'number' ? (
+                    <Input
+                        type="number"
+                        min={0}
+                        value={values[param.key] ?? ''}
+                        placeholder={blankLabel}
+                        onChange={e => onChange({ ...values, [param.key]: e.target.value === '' ? '' : Number(e.target.value) })}
+                    />
+                ) : (
+                    <NativeSelect value={String(values[param.key] ?? '')} onChange={e => onChange({ ...values, [param.key]: e.target.value })}>
+                        <option value="">{blankLabel}</option>
+                        {choices[param.source].map(choice => <option key={choice} value={choice}>{choice}</option>)}
+                    </NativeSelect>
+                )}
+            </div>
+        ))}
+    </div>
+);
+
+const summarizeValues = (template: RuleTemplate) =>
+    TEMPLATE_KINDS[template.kind].params
+        .map(p => `${p.label}: ${String(template.values[p.key] ?? '').trim() || 'ask when used'}`)
+        .join(' · ');
+
+export const RuleTemplateLibrary: FC<RuleTemplateLibraryProps> = ({ templates, tasks, workers, rules, onUpdateTemplates, onAddRules }) => {
+    const [name, setName] = useState('');
+    const [kind, setKind] = useState<RuleTemplateKind>('SKILL_PHASE_WINDOW');
+    const [values, setValues] = useState<RuleTemplate['values']>({});
+    const [activeId, setActiveId] = useState<string | null>(null);
+    const [useValues, setUseValues] = useState<RuleTemplate['values']>({});
+
+    const choices = useMemo(() => ({
+        skill: Array.from(new Set(tasks.flatMap(t => toList(t.RequiredSkills)))).sort(),
+        workerGroup: Array.from(new Set(workers.map(w => w.WorkerGroup).filter((g): g is string => !!g))).sort(),
+    }), [tasks, workers]);
+
+    const activeTemplate = templates.find(t => t.id === activeId);
+    const missing = activeTemplate ? missingTemplateParams(activeTemplate.kind, useValues) : [];
+    const preview = useMemo(
+        () => activeTemplate && missing.length === 0 ? instantiateTemplate(activeTemplate.kind, useValues, { tasks, workers }, rules) : null,
+        [activeTemplate, missing.length, useValues, tasks, workers, rules]
+    );
+
+    const saveTemplate = () => {
+        if (!name.trim()) {
+            toast.error("Please enter a template name");
+            return;
+        }
+        onUpdateTemplates([...templates, { id: generateUniqueId(), name: name.trim(), kind, values }]);
+        setName('');
+        setValues({});
+        toast.success(`Template "${name.trim()}" saved`);
+    };
+
+    const startUsing = (template: RuleTemplate) => {
+        setActiveId(template.id === activeId ? null : template.id);
+        setUseValues(template.values);
+    };
+
+    const addRules = () => {
+        if (!preview || preview.rules.length === 0) return;
+        onAddRules(preview.rules);
+        toast.success(`Added ${preview.rules.length} rule(s) from "${activeTemplate!.name}"`);
+        setActiveId(null);
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <BookTemplate className="h-5 w-5" /> Rule Templates
+                </CardTitle>
+                <CardDescription>
+                    Save rule patterns you use every cycle. Using a template expands it into concrete rules for the
+                    tasks and workers currently loaded.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <div className="space-y-3 border rounded-md p-4">
+                    <div className="flex flex-wrap gap-2">
+                        <Input
+                            className="flex-1 min-w-48"
+                            value={name}
+                            onChange={e => setName(e.target.value)}
+                            placeholder="Template name, e.g. 'Python tasks early'"
+                        />
+                        <NativeSelect
+                            className="w-56"
+                            value={kind}
+                            onChange={e => {
+                                setKind(e.target.value as RuleTemplateKind);
+                                setValues({});
+                            }}
+                        >
+                            {TEMPLATE_KIND_LIST.map(k => <option key={k} value={k}>{TEMPLATE_KINDS[k].label}</option>)}
+                        </NativeSelect>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{TEMPLATE_KINDS[kind].description}</p>
+                    <TemplateParamFields kind={kind} values={values} onChange={setValues} choices={choices} blankLabel="Ask when used" />
+                    <Button onClick={saveTemplate}>
+                        <Save className="mr-2 h-4 w-4" /> Save Template
+                    </Button>
+                </div>
+
+                {templates.length === 0 ? (
+                    <div className="text-center py-4 text-muted-foreground">No templates saved yet.</div>
+                ) : (
+                    <ul className="space-y-3">
+                        {templates.map(template => (
+                            <li key={template.id} className="border rounded-md p-3 space-y-3">
+                                <div className="flex justify-between items-start gap-4">
+                                    <div>
+                                        <p className="font-medium">{template.name}</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {TEMPLATE_KINDS[template.kind].label} · {summarizeValues(template)}
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-1 shrink-0">
+                                        <Button variant="secondary" size="sm" onClick={() => startUsing(template)}>
+                                            <Wand2 className="mr-1 h-4 w-4" /> Use
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            className="text-red-500 hover:text-red-600"
+                                            onClick={() => onUpdateTemplates(templates.filter(t => t.id !== template.id))}
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                            <span className="sr-only">Delete template</span>
+                                        </Button>
+                                    </div>
+                                </div>
+                                {template.id === activeId && (
+                                    <div className="space-y-3 border-t pt-3">
+                                        <TemplateParamFields kind={template.kind} values={useValues} onChange={setUseValues} choices={choices} blankLabel="Select..." />
+                                        {missing.length > 0 ? (
+                                            <p className="text-sm text-muted-foreground">
+                                                Fill in {missing.map(p => p.label).join(', ')} to preview the rules.
+                                            </p>
+                                        ) : preview && (
+                                            <div className="space-y-1 text-sm">
+                                                {preview.rules.length === 0 && preview.errors.length === 0 && (
+                                                    <p className="text-muted-foreground">
+                                                        This template matches nothing new in the loaded data
+                                                        {preview.duplicates > 0 ? ` (${preview.duplicates} matching rule(s) already exist)` : ''}.
+                                                    </p>
+                                                )}
+                                                {preview.rules.length > 0 && (
+                                                    <ul className="list-disc pl-5">
+                                                        {preview.rules.map(rule => (
+                                                            <li key={rule.id}>{RULE_LABELS[rule.type]}: {describeRule(rule)}</li>
+                                                        ))}
+                                                    </ul>
+                                                )}
+                                                {preview.rules.length > 0 && preview.duplicates > 0 && (
+                                                    <p className="text-muted-foreground">{preview.duplicates} matching rule(s) already exist and will be skipped.</p>
+                                                )}
+                                                {preview.errors.map((error, index) => (
+                                                    <p key={index} className="text-destructive">{error}</p>
+                                                ))}
+                                            </div>
+                                        )}
+                                        <Button onClick={addRules} disabled={!preview || preview.rules.length === 0 || preview.errors.length > 0}>
+                                            Add {preview?.rules.length ?? 0} Rule(s)
+                                        </Button>
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
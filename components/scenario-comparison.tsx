@@ -0,0 +1,159 @@
+"use client";
+
+import React, { useState, useMemo, FC } from 'react';
+
+import { Client, Worker, Task, Priorities, Scenario, Rule } from '@/types';
+import { allocate, countRuleViolations } from '@/lib/allocation';
+import { generateUniqueId } from '@/lib/utils';
+import { describeRule, RULE_LABELS } from '@/lib/rules';
+import { CRITERIA, normalizeWeights } from '@/lib/criteria';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ScenarioComparisonProps {
+    clients: Client[];
+    workers: Worker[];
+    tasks: Task[];
+    rules: Rule[];
+    priorities: Partial<Priorities>;
+    scenarios: Scenario[];
+    onUpdateScenarios: (scenarios: Scenario[]) => void;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const ScenarioComparison: FC<ScenarioComparisonProps> = ({ clients, workers, tasks, rules, priorities, scenarios, onUpdateScenarios }) => {
+    const [name, setName] = useState('');
+    const [selectedRuleIds, setSelectedRuleIds] = useState<string[] | null>(null);
+
+    const activeRules = useMemo(() => rules.filter(r => !r.disabled), [rules]);
+    const chosenRuleIds = selectedRuleIds ?? activeRules.map(r => r.id);
+
+    const results = useMemo(() => {
+        const columns: { id: string; name: string; priorities: Partial<Priorities>; ruleIds?: string[] }[] = [
+            { id: 'current', name: 'Current settings', priorities },
+            ...scenarios,
+        ];
+        return columns.map(column => {
+            const scenarioRules = column.ruleIds ? activeRules.filter(r => column.ruleIds!.includes(r.id)) : activeRules;
+            const plan = allocate(clients, workers, tasks, scenarioRules, column.priorities);
+            return { ...column, plan, violations: countRuleViolations(plan, activeRules, workers) };
+        });
+    }, [clients, workers, tasks, activeRules, priorities, scenarios]);
+
+    const priorityLevels = Array.from(new Set(results.flatMap(r => Object.keys(r.plan.metrics.fulfillmentByPriority).map(Number))))
+        .sort((a, b) => a - b);
+
+    const toggleRule = (ruleId: string) => {
+        setSelectedRuleIds(chosenRuleIds.includes(ruleId) ? chosenRuleIds.filter(id => id !== ruleId) : [...chosenRuleIds, ruleId]);
+    };
+
+    const saveScenario = () => {
+        if (!name.trim()) {
+            toast.error("Please enter a scenario name");
+            return;
+        }
+        const allSelected = activeRules.every(r => chosenRuleIds.includes(r.id));
+        const scenario: Scenario = {
+            id: generateUniqueId(),
+            name: name.trim(),
+            priorities: normalizeWeights(priorities),
+            ...(allSelected ? {} : { ruleIds: chosenRuleIds }),
+        };
+        onUpdateScenarios([...scenarios, scenario]);
+        setName('');
+        setSelectedRuleIds(null);
+        toast.success(`Scenario "${scenario.name}" saved`);
+    };
+
+    const deleteScenario = (id: string) => {
+        onUpdateScenarios(scenarios.filter(s => s.id !== id));
+    };
+
+    const metricRows: { label: string; value: (r: typeof results[number]) => React.ReactNode }[] = [
+        ...CRITERIA.map(criterion => ({
+            label: `Weight: ${criterion.label}`,
+            value: (r: typeof results[number]) => `${normalizeWeights(r.priorities)[criterion.key]}%`,
+        })),
+        { label: 'Rules applied', value: r => r.ruleIds ? `${activeRules.filter(rule => r.ruleIds!.includes(rule.id)).length} of ${activeRules.length}` : `All (${activeRules.length})` },
+        { label: 'Tasks fulfilled', value: r => `${r.plan.metrics.fulfilled} / ${r.plan.metrics.requested}` },
+        { label: 'Per-worker load variance', value: r => r.plan.metrics.loadVariance.toFixed(2) },
+        ...priorityLevels.map(level => ({
+            label: `Fulfillment, PriorityLevel ${level}`,
+            value: (r: typeof results[number]) => {
+                const entry = r.plan.metrics.fulfillmentByPriority[level];
+                return entry ? `${entry.fulfilled} / ${entry.requested} (${formatPercent(entry.fulfilled / entry.requested)})` : '—';
+            },
+        })),
+        { label: 'Rule violations', value: r => r.violations },
+        { label: 'Plan score', value: r => r.plan.score.toFixed(3) },
+    ];
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Scenario Comparison</CardTitle>
+                <CardDescription>
+                    Save the current weights, optionally with a subset of rules, as a named scenario and compare the plans each one produces on the same data.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <div className="space-y-3">
+                    <div className="flex gap-2">
+                        <Input value={name} onChange={e => setName(e.target.value)} placeholder="Scenario name, e.g. 'Q3 fulfillment push'" />
+                        <Button onClick={saveScenario}>
+                            <Save className="mr-2 h-4 w-4" /> Save Scenario
+                        </Button>
+                    </div>
+                    {activeRules.length > 0 && (
+                        <div>
+                            <Label className="font-semibold">Rules to include</Label>
+                            <div className="flex flex-wrap gap-4 mt-2">
+                                {activeRules.map((rule, index) => (
+                                    <label key={rule.id} className="flex items-center gap-2 text-sm">
+                                        <input type="checkbox" checked={chosenRuleIds.includes(rule.id)} onChange={() => toggleRule(rule.id)} />
+                                        #{index + 1} {RULE_LABELS[rule.type]}: {describeRule(rule)}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Metric</TableHead>
+                            {results.map(r => (
+                                <TableHead key={r.id}>
+                                    <div className="flex items-center gap-1">
+                                        {r.name}
+                                        {r.id !== 'current' && (
+                                            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => deleteScenario(r.id)}>
+                                                <Trash2 className="h-3 w-3" />
+                                                <span className="sr-only">Delete scenario</span>
+                                            </Button>
+                                        )}
+                                    </div>
+                                </TableHead>
+                            ))}
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {metricRows.map(({ label, value }) => (
+                            <TableRow key={label}>
+                                <TableCell className="font-medium">{label}</TableCell>
+                                {results.map(r => <TableCell key={r.id}>{value(r)}</TableCell>)}
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </CardContent>
+        </Card>
+    );
+};
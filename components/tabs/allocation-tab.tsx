@@ -0,0 +1,167 @@
+"use client";
+
+import React, { useMemo, useState, FC } from 'react';
+
+import { Client, Worker, Task, Priorities, Assignment, UnassignedRequest, ReasonRef, Scenario, Rule } from '@/types';
+import { allocate } from '@/lib/allocation';
+import { downloadJson } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, HelpCircle } from 'lucide-react';
+import { AllocationTracePanel } from '../allocation-trace-panel';
+import { ScenarioComparison } from '../scenario-comparison';
+
+interface AllocationTabProps {
+    clients: Client[];
+    workers: Worker[];
+    tasks: Task[];
+    rules: Rule[];
+    priorities: Partial<Priorities>;
+    scenarios: Scenario[];
+    onUpdateScenarios: (scenarios: Scenario[]) => void;
+    onNavigate: (ref: ReasonRef) => void;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const AllocationTab: FC<AllocationTabProps> = ({ clients, workers, tasks, rules, priorities, scenarios, onUpdateScenarios, onNavigate }) => {
+    const [selected, setSelected] = useState<Assignment | UnassignedRequest | null>(null);
+
+    const plan = useMemo(
+        () => allocate(clients, workers, tasks, rules, priorities),
+        [clients, workers, tasks, rules, priorities]
+    );
+
+    const stats = [
+        { label: 'Tasks Fulfilled', value: `${plan.metrics.fulfilled} / ${plan.metrics.requested}` },
+        { label: 'Fulfillment Rate', value: formatPercent(plan.metrics.fulfillmentRate) },
+        { label: 'Priority-Weighted Fulfillment', value: formatPercent(plan.metrics.priorityFulfillment) },
+        { label: 'Load Variance', value: plan.metrics.loadVariance.toFixed(2) },
+        { label: 'Plan Score', value: plan.score.toFixed(3) },
+    ];
+
+    return (
+        <div className="space-y-6 mt-6">
+            <Card>
+                <CardHeader>
+                    <div className="flex justify-between items-center">
+                        <div>
+                            <CardTitle>Allocation Plan</CardTitle>
+                            <CardDescription>
+                                Assignments computed from the loaded data, rules and weights. Best strategy: {plan.strategy}.
+                            </CardDescription>
+                        </div>
+                        <Button variant="outline" onClick={() => downloadJson(plan, 'allocation.json')}>
+                            <Download className="mr-2 h-4 w-4" /> Download Plan
+                        </Button>
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                        {stats.map(({ label, value }) => (
+                            <div key={label} className="border rounded-md p-4 bg-secondary/50">
+                                <p className="text-sm text-muted-foreground">{label}</p>
+                                <p className="text-2xl font-bold text-primary">{value}</p>
+                            </div>
+                        ))}
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Assignments</CardTitle>
+                    <CardDescription>Each requested task with the worker and phases it was placed in.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {plan.assignments.length === 0 ? (
+                        <p className="text-muted-foreground text-center py-8">No tasks could be assigned.</p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>ClientID</TableHead>
+                                    <TableHead>TaskID</TableHead>
+                                    <TableHead>WorkerID</TableHead>
+                                    <TableHead>Phases</TableHead>
+                                    <TableHead />
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {plan.assignments.map(a => (
+                                    <TableRow key={`${a.clientId}-${a.taskId}`}>
+                                        <TableCell>{a.clientId}</TableCell>
+                                        <TableCell>{a.taskId}</TableCell>
+                                        <TableCell>{a.workerId}</TableCell>
+                                        <TableCell>{a.phases.join(', ')}</TableCell>
+                                        <TableCell className="text-right">
+                                            <Button variant="ghost" size="sm" onClick={() => setSelected(a)}>
+                                                <HelpCircle className="h-4 w-4" /> Why?
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            {plan.unassigned.length > 0 && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Unassigned Requests ({plan.unassigned.length})</CardTitle>
+                        <CardDescription>Requested tasks that could not be placed without breaking a constraint.</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>ClientID</TableHead>
+                                    <TableHead>TaskID</TableHead>
+                                    <TableHead>Reason</TableHead>
+                                    <TableHead />
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {plan.unassigned.map(u => (
+                                    <TableRow key={`${u.clientId}-${u.taskId}`}>
+                                        <TableCell>{u.clientId}</TableCell>
+                                        <TableCell>{u.taskId}</TableCell>
+                                        <TableCell>{u.reason}</TableCell>
+                                        <TableCell className="text-right">
+                                            <Button variant="ghost" size="sm" onClick={() => setSelected(u)}>
+                                                <HelpCircle className="h-4 w-4" /> Why?
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </CardContent>
+                </Card>
+            )}
+
+            <ScenarioComparison
+                clients={clients}
+                workers={workers}
+                tasks={tasks}
+                rules={rules}
+                priorities={priorities}
+                scenarios={scenarios}
+                onUpdateScenarios={onUpdateScenarios}
+            />
+
+            <AllocationTracePanel
+                entry={selected}
+                rules={rules}
+                onClose={() => setSelected(null)}
+                onNavigate={ref => {
+                    setSelected(null);
+                    onNavigate(ref);
+                }}
+            />
+        </div>
+    );
+};
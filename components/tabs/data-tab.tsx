@@ -1,19 +1,31 @@
 "use client";
 
-import React, { useState, useCallback, FC } from 'react';
-import * as XLSX from 'xlsx';
-import Papa from 'papaparse';
+import React, { useState, useCallback, useMemo, useRef, FC } from 'react';
 import { useDropzone } from 'react-dropzone';
 
-import { Client, Worker, Task, EntityType, ValidationError } from '@/types';
-import { generateUniqueId, downloadCsv } from '@/lib/utils';
+import { Client, Worker, Task, EntityType, ValidationError, ReasonRef, Rule, ColumnMapping, SavedColumnMapping, ImportMode, AttributeSchema } from '@/types';
+import { downloadCsv } from '@/lib/utils';
+import { diagnose } from '@/lib/diagnosis';
+import { ENTITY_SCHEMAS, normalizeRow } from '@/lib/normalize';
+import { ParsedSheet, TextParseSettings, HEAD_BYTES, SPREADSHEET_FILE_TYPES, TEXT_FILE_TYPES, detectTextSettings, isSpreadsheetFile, previewLines } from '@/lib/file-import';
+import { PipelineCancelledError } from '@/lib/import-pipeline';
+import { useImportPipeline } from '@/hooks/use-import-pipeline';
+import { mappingSignature, suggestColumnMapping } from '@/lib/column-mapping';
+import { ImportPlan, ImportSummary, ImportWrites, describeImport } from '@/lib/import-merge';
 
 import { ValidationPanel } from '@/components/validation-panel';
+import { DiagnosisPanel } from '@/components/diagnosis-panel';
 import { EditableTable } from '@/components/editable-table';
+import { AttributeSchemaDialog } from '@/components/attribute-schema-dialog';
+import { ColumnMappingDialog } from '@/components/column-mapping-dialog';
+import { ParseSettingsPanel } from '@/components/parse-settings-panel';
+import { WorkbookImportDialog, SheetImport } from '@/components/workbook-import-dialog';
+import { ImportPreviewDialog } from '@/components/import-preview-dialog';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
 import { Input } from '@/components/ui/input';
-import { FileUp, Download, Search, UploadCloud, Bot } from 'lucide-react';
+import { FileUp, Download, Search, UploadCloud, Bot, FileSpreadsheet } from 'lucide-react';
 import { toast } from 'sonner';
 import { AISuggestionPanel } from '../ai-suggestion-panel';
 import { GoogleGenerativeAI } from "@google/generative-ai";
@@ -22,19 +34,27 @@ interface DataTabProps {
     clients: Client[];
     workers: Worker[];
     tasks: Task[];
-    saveData: (entityType: EntityType, data: any[]) => Promise<void>;
+    rules: Rule[];
+    onUpdateRules: (rules: Rule[]) => void;
+    saveImport: (writes: Partial<Record<EntityType, ImportWrites>>) => Promise<void>;
     saveSingleDoc: (entityType: EntityType, item: any) => Promise<void>;
+    focus?: Extract<ReasonRef, { kind: 'row' }> | null;
+    columnMappings: SavedColumnMapping[];
+    onUpdateColumnMappings: (mappings: SavedColumnMapping[]) => void;
+    attributeSchema: AttributeSchema | null;
+    onUpdateAttributeSchema: (schema: AttributeSchema | null) => void;
 }
 
-const mapHeader = (header: string): string => {
-    const normalized = header.toLowerCase().replace(/[\s_-]/g, '');
-    const map: { [key: string]: keyof (Client & Worker & Task) } = {
-        clientid: 'ClientID', clientgroup: 'ClientGroup', prioritylevel: 'PriorityLevel', requestedtaskids: 'RequestedTaskIDs', attributesjson: 'AttributesJSON',
-        workerid: 'WorkerID', workergroup: 'WorkerGroup', skills: 'Skills', availableslots: 'AvailableSlots', maxloadperphase: 'MaxLoadPerPhase', maxconcurrent: 'MaxConcurrent',
-        taskid: 'TaskID', requiredskills: 'RequiredSkills', preferredphases: 'PreferredPhases', duration: 'Duration', coruntaskids: 'CoRunTaskIDs'
-    };
-    return map[normalized] || header;
-};
+interface PendingUpload {
+    fileName: string;
+    entityType: EntityType;
+    headers: string[];
+    rows: Record<string, unknown>[];
+    mode: ImportMode;
+    // Text uploads keep their file, so they can be read again with other settings, and its first
+    // bytes for the settings preview.
+    text?: { file: File; head: Uint8Array; settings: TextParseSettings };
+}
 
 // Server-side Gemini API call wrapper
 const callGeminiAPI = async (prompt: string): Promise<string> => {
@@ -49,130 +69,51 @@ const callGeminiAPI = async (prompt: string): Promise<string> => {
     }
 };
 
-export const DataTab: FC<DataTabProps> = ({ clients, workers, tasks, saveData, saveSingleDoc }) => {
-    const [errors, setErrors] = useState<ValidationError[]>([]);
+type FieldRef = Pick<ValidationError, 'entityType' | 'id' | 'field'>;
+
+const sameField = (a: FieldRef, b: FieldRef) => a.entityType === b.entityType && a.id === b.id && a.field === b.field;
+
+export const DataTab: FC<DataTabProps> = ({ clients, workers, tasks, rules, onUpdateRules, saveImport, saveSingleDoc, focus, columnMappings, onUpdateColumnMappings, attributeSchema, onUpdateAttributeSchema }) => {
+    const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+    // Type errors from edits that were not saved. Validation only sees stored data, so these are
+    // kept apart and shown alongside its result until the field is saved.
+    const [fieldErrors, setFieldErrors] = useState<ValidationError[]>([]);
+    const validationRun = useRef(0);
     const [aiSuggestions, setAiSuggestions] = useState<string[]>([]);
     const [searchTerms, setSearchTerms] = useState({ clients: '', workers: '', tasks: '' });
     const [nlCommand, setNlCommand] = useState('');
     const [isGenerating, setIsGenerating] = useState(false);
+    const [pendingUpload, setPendingUpload] = useState<PendingUpload | null>(null);
+    const [pendingWorkbook, setPendingWorkbook] = useState<{ fileName: string; sheets: ParsedSheet[] } | null>(null);
+    const [stagedImport, setStagedImport] = useState<{ fileName: string; plans: ImportPlan[] } | null>(null);
+
+    const { progress, parseText, parseWorkbook, planImports, validate: validateWith, cancel } = useImportPipeline();
+    // Every validation run checks client attributes against the workspace schema.
+    const validate = useCallback(
+        (c: Client[], w: Worker[], t: Task[]) => validateWith(c, w, t, attributeSchema),
+        [validateWith, attributeSchema],
+    );
+
+    const errors = useMemo(
+        () => [...validationErrors.filter(e => !fieldErrors.some(f => sameField(e, f))), ...fieldErrors],
+        [validationErrors, fieldErrors]
+    );
 
     const dataMap = { clients, workers, tasks };
+    const conflicts = useMemo(() => diagnose(clients, workers, tasks, rules), [clients, workers, tasks, rules]);
 
+    // Runs can overlap; only the latest one's result is kept.
     const validateAllData = useCallback(async () => {
-        const allErrors: ValidationError[] = [];
+        const run = ++validationRun.current;
+        let allErrors: ValidationError[];
+        try {
+            allErrors = await validate(clients, workers, tasks);
+        } catch (error: any) {
+            if (!(error instanceof PipelineCancelledError)) toast.error(`Validation failed: ${error.message}`);
+            return;
+        }
+        if (run !== validationRun.current) return;
         const allSuggestions: string[] = [];
-        const allTaskIds = new Set(tasks.map(t => t.TaskID));
-        const allWorkerSkills = new Set(workers.flatMap(w => w.Skills || []));
-        const allRequiredSkills = new Set(tasks.flatMap(t => t.RequiredSkills || []));
-
-        // Check duplicates
-        const checkDuplicates = (items: any[], idKey: string, entityType: EntityType) => {
-            const ids = new Set<string>();
-            items.forEach(item => {
-                const id = item[idKey] as string;
-                if (!id) {
-                    allErrors.push({
-                        entityType, id: item.id, field: idKey, message: "Required ID is missing.",
-                        rowId: undefined
-                    });
-                } else if (ids.has(id)) {
-                    allErrors.push({
-                        entityType, id, field: idKey, message: `Duplicate ID found: ${id}.`,
-                        rowId: undefined
-                    });
-                }
-                ids.add(id);
-            });
-        };
-
-        checkDuplicates(clients, 'ClientID', 'clients');
-        checkDuplicates(workers, 'WorkerID', 'workers');
-        checkDuplicates(tasks, 'TaskID', 'tasks');
-
-        // Validate clients
-        clients.forEach(c => {
-            if (c.PriorityLevel && (c.PriorityLevel < 1 || c.PriorityLevel > 5)) {
-                allErrors.push({
-                    entityType: 'clients', id: c.ClientID, field: 'PriorityLevel', message: 'Must be between 1-5.',
-                    rowId: undefined
-                });
-            }
-            if (c.AttributesJSON) {
-                try { JSON.parse(c.AttributesJSON); }
-                catch { allErrors.push({
-                    entityType: 'clients', id: c.ClientID, field: 'AttributesJSON', message: 'Invalid JSON format.',
-                    rowId: undefined
-                }); }
-            }
-            c.RequestedTaskIDs?.forEach(tid => {
-                if (!allTaskIds.has(tid)) {
-                    allErrors.push({
-                        entityType: 'clients', id: c.ClientID, field: 'RequestedTaskIDs', message: `Unknown TaskID: ${tid}.`,
-                        rowId: undefined
-                    });
-                }
-            });
-        });
-
-        // Validate workers
-        workers.forEach(w => {
-            if (w.MaxLoadPerPhase && w.MaxLoadPerPhase < 0) {
-                allErrors.push({
-                    entityType: 'workers', id: w.WorkerID, field: 'MaxLoadPerPhase', message: 'Cannot be negative.',
-                    rowId: undefined
-                });
-            }
-            if (w.MaxConcurrent && w.MaxConcurrent < 1) {
-                allErrors.push({
-                    entityType: 'workers', id: w.WorkerID, field: 'MaxConcurrent', message: 'Must be at least 1.',
-                    rowId: undefined
-                });
-            }
-            if (w.AvailableSlots?.some(s => isNaN(Number(s)))) {
-                allErrors.push({
-                    entityType: 'workers',
-                    id: w.WorkerID,
-                    field: 'AvailableSlots',
-                    message: 'Contains non-numeric values.',
-                    suggestion: w.AvailableSlots.map(s => String(s).replace(/\D/g, '')).join(', '),
-                    rowId: undefined
-                });
-            }
-        });
-
-        // Validate tasks
-        tasks.forEach(t => {
-            if (t.Duration && t.Duration < 1) {
-                allErrors.push({
-                    entityType: 'tasks', id: t.TaskID, field: 'Duration', message: 'Must be at least 1.',
-                    rowId: undefined
-                });
-            }
-            t.RequiredSkills?.forEach(skill => {
-                if (!allWorkerSkills.has(skill)) {
-                    allErrors.push({
-                        entityType: 'tasks', id: t.TaskID, field: 'RequiredSkills', message: `No worker has the required skill: ${skill}.`,
-                        rowId: undefined
-                    });
-                }
-            });
-            if (t.PreferredPhases?.some(p => typeof p === 'string' && !/^\d+-\d+$/.test(p))) {
-                allErrors.push({
-                    entityType: 'tasks', id: t.TaskID, field: 'PreferredPhases', message: 'Invalid range format. Use "start-end".',
-                    rowId: undefined
-                });
-            }
-        });
-
-        // Skill coverage
-        allRequiredSkills.forEach(skill => {
-            if (!allWorkerSkills.has(skill)) {
-                allErrors.push({
-                    entityType: 'tasks', id: 'Global', field: 'Skill Coverage', message: `The skill '${skill}' is required by a task but not provided by any worker.`,
-                    rowId: undefined
-                });
-            }
-        });
 
         // Gemini-powered suggestions for high-priority clients
         try {
@@ -190,86 +131,147 @@ export const DataTab: FC<DataTabProps> = ({ clients, workers, tasks, saveData, s
             setIsGenerating(false);
         }
 
-        setErrors(allErrors);
+        if (run !== validationRun.current) return;
+        setValidationErrors(allErrors);
         setAiSuggestions(allSuggestions);
-    }, [clients, workers, tasks]);
+    }, [clients, workers, tasks, validate]);
 
     React.useEffect(() => {
         validateAllData();
     }, [validateAllData]);
 
+    const reportPipelineError = (action: string, error: any) => {
+        if (error instanceof PipelineCancelledError) toast.info(`${action} cancelled`);
+        else toast.error(`Error ${action.toLowerCase()}: ${error.message}`);
+    };
+
+    // Only the start of a text file is read here, to detect how to parse it; the worker reads the rest.
     const onDrop = useCallback(async (acceptedFiles: File[], entityType: EntityType) => {
         const file = acceptedFiles[0];
         if (!file) return;
 
         try {
-            const reader = new FileReader();
-            reader.onabort = () => toast.error('File reading was aborted');
-            reader.onerror = () => toast.error('File reading failed');
-            reader.onload = async () => {
-                try {
-                    const data = reader.result;
-                    let parsedData: any[];
-
-                    if (file.name.endsWith('.csv')) {
-                        parsedData = Papa.parse(data as string, { header: true, skipEmptyLines: true }).data;
-                    } else if (file.name.endsWith('.xlsx')) {
-                        const workbook = XLSX.read(data, { type: 'binary' });
-                        parsedData = XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]]);
-                    } else {
-                        throw new Error("Unsupported file type. Please use .csv or .xlsx.");
-                    }
-
-                    const transformedData = parsedData.map(row => {
-                        const newRow: any = { id: generateUniqueId() };
-                        for (const key in row) {
-                            const mappedKey = mapHeader(key);
-                            let value = row[key];
-                            if (['RequestedTaskIDs', 'Skills', 'RequiredSkills', 'CoRunTaskIDs'].includes(mappedKey)) {
-                                value = String(value).split(',').map(s => s.trim()).filter(Boolean);
-                            } else if (['AvailableSlots', 'PreferredPhases'].includes(mappedKey)) {
-                                value = String(value).replace(/[\[\]]/g, '').split(',').map(s => s.trim()).filter(Boolean);
-                            } else if (['PriorityLevel', 'Duration', 'MaxLoadPerPhase', 'MaxConcurrent'].includes(mappedKey)) {
-                                value = parseInt(String(value), 10);
-                            }
-                            newRow[mappedKey] = value;
-                        }
-                        return newRow;
-                    }).filter(row => row.ClientID || row.WorkerID || row.TaskID);
-
-                    await saveData(entityType, transformedData);
-                    validateAllData();
-                    toast.success(`${entityType} data uploaded successfully`);
-                } catch (error: any) {
-                    toast.error(`Error processing file: ${error.message}`);
-                }
-            };
-            reader.readAsBinaryString(file);
+            if (isSpreadsheetFile(file.name)) {
+                const [sheet] = await parseWorkbook(file);
+                if (!sheet || sheet.headers.length === 0) throw new Error("The file has no header row.");
+                setPendingUpload({ fileName: file.name, entityType, headers: sheet.headers, rows: sheet.rows, mode: 'replace' });
+                return;
+            }
+            const head = new Uint8Array(await file.slice(0, HEAD_BYTES).arrayBuffer());
+            const settings = detectTextSettings(file.name, head, file.size > HEAD_BYTES);
+            const [sheet] = await parseText(file, settings);
+            if (!sheet || sheet.headers.length === 0) throw new Error("The file has no header row.");
+            setPendingUpload({ fileName: file.name, entityType, headers: sheet.headers, rows: sheet.rows, mode: 'replace', text: { file, head, settings } });
         } catch (error: any) {
-            toast.error(`Error processing file: ${error.message}`);
+            reportPipelineError('Reading file', error);
         }
-    }, [saveData, validateAllData]);
+    }, [parseText, parseWorkbook]);
 
-    const handleUpdateCell = async (rowIndex: number, field: string, value: any, entityType: EntityType) => {
-        const dataSet = dataMap[entityType];
-        const itemToUpdate = { ...dataSet[rowIndex] };
-
-        if (['RequestedTaskIDs', 'Skills', 'RequiredSkills', 'CoRunTaskIDs', 'AvailableSlots', 'PreferredPhases'].includes(field)) {
-            const arrValue = String(value).split(',').map(s => s.trim()).filter(Boolean);
-            // If the original field is a string, join the array back to a string
-            if (typeof itemToUpdate[field as keyof typeof itemToUpdate] === 'string') {
-                itemToUpdate[field as keyof typeof itemToUpdate] = arrValue.join(', ') as any;
-            } else {
-                itemToUpdate[field as keyof typeof itemToUpdate] = arrValue as any;
-            }
-        } else if (['PriorityLevel', 'Duration', 'MaxLoadPerPhase', 'MaxConcurrent'].includes(field)) {
-            itemToUpdate[field as keyof typeof itemToUpdate] = String(parseInt(String(value), 10) || 0);
-        } else {
-            itemToUpdate[field as keyof typeof itemToUpdate] = value;
+    // Re-reads a text upload with settings the user chose; the column mapping starts over.
+    const reparseUpload = async (settings: TextParseSettings) => {
+        if (!pendingUpload?.text) return;
+        try {
+            const [sheet] = await parseText(pendingUpload.text.file, settings);
+            setPendingUpload({ ...pendingUpload, headers: sheet?.headers ?? [], rows: sheet?.rows ?? [], text: { ...pendingUpload.text, settings } });
+        } catch (error: any) {
+            if (error instanceof PipelineCancelledError) return;
+            toast.error(`Could not read the file with these settings: ${error.message}`);
+        }
+    };
+
+    const rememberMappings = (mappings: SavedColumnMapping[]) => {
+        if (mappings.length === 0) return;
+        const signatures = new Set(mappings.map(m => m.signature));
+        onUpdateColumnMappings([...columnMappings.filter(m => !signatures.has(m.signature)), ...mappings]);
+    };
+
+    // Nothing is written here; the rows go to the preview, and only what the user keeps there is saved.
+    const confirmUpload = async (mapping: ColumnMapping[], remember: boolean) => {
+        if (!pendingUpload) return;
+        const { fileName, entityType, headers, rows, mode } = pendingUpload;
+        setPendingUpload(null);
+        if (remember) rememberMappings([{ signature: mappingSignature(entityType, headers), entityType, columns: mapping }]);
+        try {
+            const plans = await planImports([{ entityType, mode, existing: dataMap[entityType], rows, mapping }]);
+            setStagedImport({ fileName, plans });
+        } catch (error: any) {
+            reportPipelineError('Preparing import', error);
+        }
+    };
+
+    const onDropWorkbook = useCallback(async (acceptedFiles: File[]) => {
+        const file = acceptedFiles[0];
+        if (!file) return;
+        try {
+            const sheets = await parseWorkbook(file);
+            if (sheets.length === 0) throw new Error("The workbook has no sheets with a header row.");
+            setPendingWorkbook({ fileName: file.name, sheets });
+        } catch (error: any) {
+            reportPipelineError('Reading workbook', error);
+        }
+    }, [parseWorkbook]);
+
+    const workbookDropzone = useDropzone({
+        onDrop: onDropWorkbook,
+        accept: SPREADSHEET_FILE_TYPES,
+    });
+
+    const confirmWorkbook = async (imports: SheetImport[], mode: ImportMode) => {
+        if (!pendingWorkbook) return;
+        setPendingWorkbook(null);
+        rememberMappings(imports
+            .filter(i => i.remember)
+            .map(i => ({ signature: mappingSignature(i.entityType, i.sheet.headers), entityType: i.entityType, columns: i.mapping })));
+        try {
+            const plans = await planImports(imports.map(i => ({ entityType: i.entityType, mode, existing: dataMap[i.entityType], rows: i.sheet.rows, mapping: i.mapping })));
+            setStagedImport({ fileName: pendingWorkbook.fileName, plans });
+        } catch (error: any) {
+            reportPipelineError('Preparing import', error);
         }
+    };
+
+    // Saves the staged changes and reports one validation result for the data as it now stands.
+    const commitImport = async (
+        dataSets: Partial<Record<EntityType, any[]>>,
+        writes: Partial<Record<EntityType, ImportWrites>>,
+        summaries: { entityType: EntityType; summary: ImportSummary }[],
+    ) => {
+        setStagedImport(null);
+        try {
+            await saveImport(writes);
+            const issues = await validate(
+                (dataSets.clients ?? clients) as Client[],
+                (dataSets.workers ?? workers) as Worker[],
+                (dataSets.tasks ?? tasks) as Task[],
+            );
+            const summary = summaries.map(s => describeImport(s.entityType, s.summary)).join('; ');
+            if (issues.length === 0) toast.success(`Imported ${summary}. No validation errors found.`);
+            else toast.warning(`Imported ${summary}. Validation found ${issues.length} error(s); see the list above.`);
+        } catch (error: any) {
+            toast.error(`Error importing ${summaries.map(s => s.entityType).join(', ')}: ${error.message}`);
+        }
+    };
 
-        await saveSingleDoc(entityType, itemToUpdate);
+    // Table edits, commands and AI fixes all write one field through the normalizer. A value that
+    // cannot be converted is not saved; its error is listed with the others instead.
+    const saveField = async (entityType: EntityType, item: Client | Worker | Task, field: string, value: unknown) => {
+        const { row, errors: typeErrors } = normalizeRow(entityType, { ...item, [field]: value });
+        const typeError = typeErrors.find(e => e.field === field);
+        const ref: FieldRef = { entityType, id: (item as any)[Object.keys(ENTITY_SCHEMAS[entityType])[0]], field };
+        const isThisField = (e: ValidationError) => sameField(e, ref);
+        if (typeError) {
+            setFieldErrors(prev => [...prev.filter(e => !isThisField(e)), typeError]);
+            toast.error(`${typeError.id} ${field}: ${typeError.message}`);
+            return false;
+        }
+        await saveSingleDoc(entityType, row);
+        setFieldErrors(prev => prev.filter(e => !isThisField(e)));
         validateAllData();
+        return true;
+    };
+
+    const handleUpdateCell = async (rowIndex: number, field: string, value: any, entityType: EntityType) => {
+        await saveField(entityType, dataMap[entityType][rowIndex], field, value);
     };
 
     const handleSearch = (entityType: EntityType, term: string) => {
@@ -317,22 +319,8 @@ export const DataTab: FC<DataTabProps> = ({ clients, workers, tasks, saveData, s
                 return;
             }
 
-            const updatedItem = { ...item };
-            if (['RequestedTaskIDs', 'Skills', 'RequiredSkills', 'CoRunTaskIDs', 'AvailableSlots', 'PreferredPhases'].includes(field)) {
-                if (typeof updatedItem[field as keyof typeof updatedItem] === 'string') {
-                    updatedItem[field as keyof typeof updatedItem] = String(value).split(',').map((s: string) => s.trim()).filter(Boolean).join(', ') as any;
-                } else {
-                    updatedItem[field as keyof typeof updatedItem] = String(value).split(',').map((s: string) => s.trim()).filter(Boolean) as any;
-                }
-            } else if (['PriorityLevel', 'MaxLoadPerPhase', 'MaxConcurrent', 'Duration'].includes(field)) {
-                updatedItem[field as keyof typeof updatedItem] = String(parseInt(String(value), 10) || 0);
-            } else {
-                updatedItem[field as keyof typeof updatedItem] = value;
-            }
-
-            await saveSingleDoc(mappedEntityType, updatedItem);
+            if (!(await saveField(mappedEntityType, item, field, value))) return;
             setNlCommand('');
-            validateAllData();
             toast.success(`Successfully updated ${entityType} ${id}`);
         } catch (error: any) {
             toast.error(`Error modifying data: ${error.message}`);
@@ -355,22 +343,7 @@ export const DataTab: FC<DataTabProps> = ({ clients, workers, tasks, saveData, s
                 return;
             }
 
-            const updatedItem = { ...item };
-            if (['RequestedTaskIDs', 'Skills', 'RequiredSkills', 'CoRunTaskIDs', 'AvailableSlots', 'PreferredPhases'].includes(field)) {
-                const arrValue = validatedSuggestion.split(',').map((s: string) => s.trim()).filter(Boolean);
-                if (typeof updatedItem[field as keyof typeof updatedItem] === 'string') {
-                    updatedItem[field as keyof typeof updatedItem] = arrValue.join(', ') as any;
-                } else {
-                    updatedItem[field as keyof typeof updatedItem] = arrValue as any;
-                }
-            } else if (['PriorityLevel', 'MaxLoadPerPhase', 'MaxConcurrent', 'Duration'].includes(field)) {
-                updatedItem[field as keyof typeof updatedItem] = String(parseInt(validatedSuggestion, 10) || 0);
-            } else {
-                updatedItem[field as keyof typeof updatedItem] = validatedSuggestion;
-            }
-
-            await saveSingleDoc(entityType, updatedItem);
-            validateAllData();
+            if (!(await saveField(entityType, item, field, validatedSuggestion.trim()))) return;
             toast.success(`Applied fix for ${entityType} ${id}`);
         } catch (error: any) {
             toast.error(`Error applying AI fix: ${error.message}`);
@@ -379,20 +352,6 @@ export const DataTab: FC<DataTabProps> = ({ clients, workers, tasks, saveData, s
         }
     };
 
-    const generateRuleRecommendations = async () => {
-        setIsGenerating(true);
-        try {
-            const prompt = `Analyze client data for task co-occurrences and suggest rules in the format: "If task X is assigned, then assign task Y to the same worker." Return one rule per line.\nClients: ${JSON.stringify(clients)}`;
-            const text = await callGeminiAPI(prompt);
-            return text.split('\n').filter(Boolean);
-        } catch (error: any) {
-            toast.error(`Error generating rule recommendations: ${error.message}`);
-            return [];
-        } finally {
-            setIsGenerating(false);
-        }
-    };
-
     const dataSections = [
         { title: 'Clients', entityType: 'clients' as EntityType, data: clients, onDrop: (files: File[]) => onDrop(files, 'clients') },
         { title: 'Workers', entityType: 'workers' as EntityType, data: workers, onDrop: (files: File[]) => onDrop(files, 'workers') },
@@ -401,8 +360,69 @@ export const DataTab: FC<DataTabProps> = ({ clients, workers, tasks, saveData, s
 
     return (
         <div className="space-y-6 mt-6">
+            {progress && (
+                <Card>
+                    <CardContent className="flex items-center gap-4 pt-6">
+                        <div className="flex-1 space-y-2">
+                            <p className="text-sm font-medium">
+                                {progress.stage}
+                                {progress.total > 1 && <span className="text-muted-foreground"> · {Math.round((progress.done / progress.total) * 100)}%</span>}
+                            </p>
+                            <Progress value={(progress.done / Math.max(progress.total, 1)) * 100} />
+                        </div>
+                        <Button variant="outline" onClick={cancel}>Cancel</Button>
+                    </CardContent>
+                </Card>
+            )}
             <ValidationPanel errors={errors} onFix={applyAIFix} />
+            <DiagnosisPanel
+                conflicts={conflicts}
+                rules={rules}
+                onDisableRule={(ruleId) => onUpdateRules(rules.map(r => r.id === ruleId ? { ...r, disabled: true } : r))}
+            />
             <AISuggestionPanel suggestions={aiSuggestions} />
+            {pendingUpload && (
+                <ColumnMappingDialog
+                    key={`${pendingUpload.entityType}:${pendingUpload.fileName}:${JSON.stringify(pendingUpload.text?.settings ?? null)}`}
+                    fileName={pendingUpload.fileName}
+                    entityType={pendingUpload.entityType}
+                    rows={pendingUpload.rows}
+                    suggestions={suggestColumnMapping(pendingUpload.entityType, pendingUpload.headers)}
+                    saved={columnMappings.find(m => m.signature === mappingSignature(pendingUpload.entityType, pendingUpload.headers))?.columns}
+                    settingsPanel={pendingUpload.text && (
+                        <ParseSettingsPanel
+                            settings={pendingUpload.text.settings}
+                            lines={previewLines(pendingUpload.text.head, pendingUpload.text.settings.encoding)}
+                            onChange={reparseUpload}
+                        />
+                    )}
+                    mode={pendingUpload.mode}
+                    onModeChange={mode => setPendingUpload({ ...pendingUpload, mode })}
+                    onConfirm={confirmUpload}
+                    onCancel={() => setPendingUpload(null)}
+                />
+            )}
+            {pendingWorkbook && (
+                <WorkbookImportDialog
+                    key={pendingWorkbook.fileName}
+                    fileName={pendingWorkbook.fileName}
+                    sheets={pendingWorkbook.sheets}
+                    savedMappings={columnMappings}
+                    onConfirm={confirmWorkbook}
+                    onCancel={() => setPendingWorkbook(null)}
+                />
+            )}
+            {stagedImport && (
+                <ImportPreviewDialog
+                    key={stagedImport.fileName}
+                    fileName={stagedImport.fileName}
+                    plans={stagedImport.plans}
+                    current={dataMap}
+                    validate={validate}
+                    onConfirm={commitImport}
+                    onCancel={() => setStagedImport(null)}
+                />
+            )}
             <Card>
                 <CardHeader>
                     <CardTitle>Natural Language Data Modification</CardTitle>
@@ -421,10 +441,31 @@ export const DataTab: FC<DataTabProps> = ({ clients, workers, tasks, saveData, s
                     </Button>
                 </CardContent>
             </Card>
+            <Card>
+                <CardHeader>
+                    <CardTitle>Import Workbook</CardTitle>
+                    <CardDescription>
+                        Drop one .xlsx or .xls file with clients, workers and tasks on separate sheets. Each sheet is recognized
+                        from its headers, and you confirm before anything is imported.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div
+                        {...workbookDropzone.getRootProps()}
+                        className={`p-6 border-2 border-dashed rounded-lg text-center cursor-pointer hover:border-primary transition-colors ${workbookDropzone.isDragActive ? 'border-primary bg-primary/10' : 'border-border'}`}
+                    >
+                        <input {...workbookDropzone.getInputProps()} />
+                        <FileSpreadsheet className="mx-auto h-12 w-12 text-muted-foreground" />
+                        <p className="mt-2 text-sm text-muted-foreground">
+                            {workbookDropzone.isDragActive ? 'Drop the workbook here ...' : "Drag 'n' drop a workbook here, or click to select"}
+                        </p>
+                    </div>
+                </CardContent>
+            </Card>
             {dataSections.map(({ title, entityType, data, onDrop: dropHandler }) => {
                 const { getRootProps, getInputProps, isDragActive } = useDropzone({
                     onDrop: dropHandler,
-                    accept: { 'text/csv': ['.csv'], 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'] }
+                    accept: { ...TEXT_FILE_TYPES, ...SPREADSHEET_FILE_TYPES }
                 });
                 return (
                     <Card key={entityType}>
@@ -434,15 +475,20 @@ export const DataTab: FC<DataTabProps> = ({ clients, workers, tasks, saveData, s
                                     <CardTitle>{title}</CardTitle>
                                     <CardDescription>Manage {title.toLowerCase()} data. Drag & drop a file or click to upload.</CardDescription>
                                 </div>
-                                <Button variant="outline" onClick={() => downloadCsv(data, `${entityType}_cleaned.csv`)}>
-                                    <Download className="mr-2 h-4 w-4" /> Download
-                                </Button>
+                                <div className="flex gap-2">
+                                    {entityType === 'clients' && (
+                                        <AttributeSchemaDialog schema={attributeSchema} clients={clients} onSave={onUpdateAttributeSchema} />
+                                    )}
+                                    <Button variant="outline" onClick={() => downloadCsv(data, `${entityType}_cleaned.csv`)}>
+                                        <Download className="mr-2 h-4 w-4" /> Download
+                                    </Button>
+                                </div>
                             </div>
                             <div className="relative mt-4">
                                 <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
                                 <Input
                                     type="search"
-                                    placeholder={`Search ${title.toLowerCase()} (e.g., "duration > 5" or "phase 2")...`}
+                                    placeholder={`Search ${title.toLowerCase()} (e.g., ${entityType === 'clients' ? `attr.location = "NY"` : `"duration > 5" or "phase 2"`})...`}
                                     className="w-full pl-8"
                                     value={searchTerms[entityType]}
                                     onChange={(e) => handleSearch(entityType, e.target.value)}
@@ -458,7 +504,7 @@ export const DataTab: FC<DataTabProps> = ({ clients, workers, tasks, saveData, s
                                 <input {...getInputProps()} />
                                 <UploadCloud className="mx-auto h-12 w-12 text-muted-foreground" />
                                 <p className="mt-2 text-sm text-muted-foreground">
-                                    {isDragActive ? 'Drop the file here ...' : `Drag 'n' drop ${entityType}.csv/xlsx here, or click to select`}
+                                    {isDragActive ? 'Drop the file here ...' : `Drag 'n' drop ${entityType} as CSV, TSV, JSON, NDJSON, XLSX or XLS here, or click to select`}
                                 </p>
                             </div>
                             <div className="mt-4">
@@ -468,6 +514,8 @@ export const DataTab: FC<DataTabProps> = ({ clients, workers, tasks, saveData, s
                                     errors={errors}
                                     onUpdate={handleUpdateCell}
                                     searchTerm={searchTerms[entityType]}
+                                    highlight={focus?.entityType === entityType ? focus : undefined}
+                                    attributeSchema={attributeSchema}
                                 />
                             </div>
                         </CardContent>
@@ -1,40 +1,73 @@
 "use client";
 
-import React, { FC } from 'react';
+import React, { FC, useRef, useState } from 'react';
 
 // Utils and Components
 import { downloadJson } from '@/lib/utils';
+import { validatePriorities, diffPriorities } from '@/lib/config-import';
+import { CRITERIA, normalizeWeights, redistributeWeights } from '@/lib/criteria';
+import { CriterionKey, Priorities, PriorityPreset, WeightingMode, WeightingSettings } from '@/types';
+import { ConfigImportDialog } from '@/components/config-import-dialog';
+import { AhpWeightsPanel } from '@/components/ahp-weights-panel';
+import { CriteriaRankingPanel } from '@/components/criteria-ranking-panel';
+import { PriorityPresets } from '@/components/priority-presets';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
-import { Download } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Download, Lock, LockOpen, Upload } from 'lucide-react';
+import { toast } from 'sonner';
 
 interface PrioritizationTabProps {
-    priorities: any;
-    onUpdate: (priorities: any) => void;
+    priorities: Partial<Priorities>;
+    weighting: WeightingSettings;
+    // Without weighting, the stored weighting settings are kept as they are.
+    onUpdate: (priorities: Priorities, weighting?: WeightingSettings) => void;
+    presets: PriorityPreset[];
+    onUpdatePresets: (presets: PriorityPreset[]) => void;
 }
 
-export const PrioritizationTab: FC<PrioritizationTabProps> = ({ priorities, onUpdate }) => {
-    
-    const handleSliderChange = (key: string, value: number[]) => {
-        onUpdate({ ...priorities, [key]: value[0] });
+export const PrioritizationTab: FC<PrioritizationTabProps> = ({ priorities, weighting, onUpdate, presets, onUpdatePresets }) => {
+    const [pendingImport, setPendingImport] = useState<{ fileName: string; priorities: Partial<Priorities> } | null>(null);
+    const [locked, setLocked] = useState<CriterionKey[]>([]);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const weights = normalizeWeights(priorities);
+    const unlockedCount = CRITERIA.filter(c => !locked.includes(c.key)).length;
+
+    const handleSliderChange = (key: CriterionKey, value: number[]) => {
+        onUpdate(redistributeWeights(weights, key, value[0], locked));
+    };
+
+    const toggleLock = (key: CriterionKey) => {
+        setLocked(locked.includes(key) ? locked.filter(k => k !== key) : [...locked, key]);
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            const result = validatePriorities(JSON.parse(await file.text()));
+            if (!result.ok) {
+                toast.error(`Invalid priorities file: ${result.errors.join(' ')}`);
+                return;
+            }
+            setPendingImport({ fileName: file.name, priorities: result.priorities });
+        } catch (error: any) {
+            toast.error(`Failed to import priorities: ${error.message}`);
+        }
     };
 
-    const applyPreset = (profile: 'balanced' | 'fulfill' | 'workload') => {
-        const presets = {
-            balanced: { fulfill: 50, workload: 30, priority: 20 },
-            fulfill: { fulfill: 80, workload: 10, priority: 10 },
-            workload: { fulfill: 20, workload: 70, priority: 10 },
-        };
-        onUpdate(presets[profile]);
+    const applyImport = (mode: 'replace' | 'merge') => {
+        if (!pendingImport) return;
+        onUpdate(normalizeWeights(mode === 'replace' ? pendingImport.priorities : { ...weights, ...pendingImport.priorities }));
+        toast.success(`Weights ${mode === 'replace' ? 'replaced' : 'merged'} from ${pendingImport.fileName}`);
+        setPendingImport(null);
     };
 
-    const criteria = [
-        { key: 'fulfill', label: 'Maximize Fulfillment', description: 'Prioritize completing as many tasks as possible.' },
-        { key: 'workload', label: 'Minimize Workload', description: 'Prioritize keeping worker loads low and balanced.' },
-        { key: 'priority', label: 'Client Priority', description: 'Prioritize tasks from high-priority clients.' },
-    ];
+    const weightLabel = (key: string) => CRITERIA.find(c => c.key === key)?.label ?? key;
+    const weightChanges = pendingImport ? diffPriorities(weights, pendingImport.priorities) : [];
+    const weightTotal = (values: Partial<Priorities>) => Object.values(values).reduce((sum, w) => sum + (w || 0), 0);
+    const replaceTotal = pendingImport ? weightTotal(pendingImport.priorities) : 100;
+    const mergeTotal = pendingImport ? weightTotal({ ...weights, ...pendingImport.priorities }) : 100;
 
     return (
         <div className="space-y-6 mt-6">
@@ -43,43 +76,107 @@ export const PrioritizationTab: FC<PrioritizationTabProps> = ({ priorities, onUp
                     <div className="flex justify-between items-center">
                         <div>
                             <CardTitle>Prioritization & Weights</CardTitle>
-                            <CardDescription>Adjust the importance of goals for the allocation engine.</CardDescription>
+                            <CardDescription>
+                                Adjust the importance of goals for the allocation engine. Weights always add up to 100%;
+                                moving one slider rebalances the others, except the ones you lock.
+                            </CardDescription>
+                        </div>
+                        <div className="flex gap-2">
+                            <Button variant="outline" onClick={() => downloadJson(weights, 'priorities.json')}>
+                               <Download className="mr-2 h-4 w-4" /> Download Config
+                            </Button>
+                            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                               <Upload className="mr-2 h-4 w-4" /> Import Config
+                            </Button>
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                accept=".json,application/json"
+                                className="hidden"
+                                onChange={e => {
+                                    const file = e.target.files?.[0];
+                                    if (file) handleImport(file);
+                                    e.target.value = '';
+                                }}
+                            />
                         </div>
-                        <Button variant="outline" onClick={() => downloadJson(priorities, 'priorities.json')}>
-                           <Download className="mr-2 h-4 w-4" /> Download Config
-                        </Button>
                     </div>
                 </CardHeader>
                 <CardContent className="space-y-8">
-                     <div>
-                        <Label className="font-semibold">Preset Profiles</Label>
-                        <div className="flex gap-2 mt-2">
-                            <Button variant="secondary" onClick={() => applyPreset('balanced')}>Balanced</Button>
-                            <Button variant="secondary" onClick={() => applyPreset('fulfill')}>Max Fulfillment</Button>
-                            <Button variant="secondary" onClick={() => applyPreset('workload')}>Min Workload</Button>
-                        </div>
-                    </div>
-                    <div className="space-y-6">
-                        {criteria.map(({ key, label, description }) => (
-                            <div key={key} className="space-y-3">
-                                <Label htmlFor={key} className="text-base">{label}</Label>
-                                <p className="text-sm text-muted-foreground">{description}</p>
-                                <div className="flex items-center gap-4">
-                                    <Slider
-                                        id={key}
-                                        min={0}
-                                        max={100}
-                                        step={5}
-                                        value={[priorities[key] || 0]}
-                                        onValueChange={(val) => handleSliderChange(key, val)}
-                                    />
-                                    <span className="font-bold text-primary w-12 text-center">{priorities[key] || 0}%</span>
-                                </div>
+                    <PriorityPresets weights={weights} presets={presets} onApply={newWeights => onUpdate(newWeights)} onUpdatePresets={onUpdatePresets} />
+                    <Tabs value={weighting.mode} onValueChange={mode => onUpdate(weights, { ...weighting, mode: mode as WeightingMode })}>
+                        <TabsList>
+                            <TabsTrigger value="sliders">Sliders</TabsTrigger>
+                            <TabsTrigger value="pairwise">Pairwise Comparison</TabsTrigger>
+                            <TabsTrigger value="ranking">Ranking</TabsTrigger>
+                        </TabsList>
+                        <TabsContent value="sliders" className="space-y-8 mt-4">
+                            <div className="space-y-6">
+                                {CRITERIA.map(({ key, label, description }) => {
+                                    const isLocked = locked.includes(key);
+                                    return (
+                                        <div key={key} className="space-y-3">
+                                            <Label htmlFor={key} className="text-base">{label}</Label>
+                                            <p className="text-sm text-muted-foreground">{description}</p>
+                                            <div className="flex items-center gap-4">
+                                                <Slider
+                                                    id={key}
+                                                    min={0}
+                                                    max={100}
+                                                    step={1}
+                                                    value={[weights[key]]}
+                                                    disabled={isLocked || unlockedCount < 2}
+                                                    onValueChange={(val) => handleSliderChange(key, val)}
+                                                />
+                                                <span className="font-bold text-primary w-12 text-center">{weights[key]}%</span>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    aria-pressed={isLocked}
+                                                    title={isLocked ? 'Unlock weight' : 'Lock weight'}
+                                                    onClick={() => toggleLock(key)}
+                                                >
+                                                    {isLocked ? <Lock className="h-4 w-4" /> : <LockOpen className="h-4 w-4 text-muted-foreground" />}
+                                                    <span className="sr-only">{isLocked ? `Unlock ${label}` : `Lock ${label}`}</span>
+                                                </Button>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
                             </div>
-                        ))}
-                    </div>
+                        </TabsContent>
+                        <TabsContent value="pairwise" className="mt-4">
+                            <AhpWeightsPanel weights={weights} onApply={newWeights => onUpdate(newWeights)} />
+                        </TabsContent>
+                        <TabsContent value="ranking" className="mt-4">
+                            <CriteriaRankingPanel weights={weights} weighting={weighting} onChange={onUpdate} />
+                        </TabsContent>
+                    </Tabs>
                 </CardContent>
             </Card>
+
+            <ConfigImportDialog
+                open={pendingImport !== null}
+                title={`Import ${pendingImport?.fileName ?? 'priorities'}`}
+                description="Review the weight changes. Merge only updates the weights in the file; Replace also clears weights the file leaves out."
+                warnings={replaceTotal !== 100 || mergeTotal !== 100
+                    ? [`Weights are rescaled to add up to 100% after importing. Before rescaling they add up to ${replaceTotal}% on replace and ${mergeTotal}% on merge.`]
+                    : []}
+                sections={[
+                    {
+                        title: 'Changed weights',
+                        items: weightChanges.filter(c => c.after !== undefined).map(c => `${weightLabel(c.key)}: ${c.before ?? 0}% → ${c.after}%`),
+                    },
+                    {
+                        title: 'Cleared weights',
+                        items: weightChanges.filter(c => c.after === undefined).map(c => `${weightLabel(c.key)}: ${c.before}% → 0%`),
+                        replaceOnly: true,
+                    },
+                ]}
+                onReplace={() => applyImport('replace')}
+                onMerge={() => applyImport('merge')}
+                onCancel={() => setPendingImport(null)}
+            />
         </div>
     );
 };
\ No newline at end of file
@@ -1,24 +1,52 @@
 "use client";
 
-import React, { useState, FC } from 'react';
+import React, { useState, useRef, useMemo, useEffect, FC } from 'react';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 
-import { generateUniqueId, downloadJson } from '@/lib/utils';
+import { Client, Worker, Task, Rule, RuleType, QuarantinedRule, RuleIssue, RuleRecommendation, RuleTemplate } from '@/types';
+import { generateUniqueId, downloadJson, downloadText } from '@/lib/utils';
+import { validateRule, partitionRules, createRule, resolveRules, describeRule, RULE_LABELS, RULE_TYPES } from '@/lib/rules';
+import { diffRules, mergeRules } from '@/lib/config-import';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Download, Bot, PlusCircle } from 'lucide-react';
+import { NativeSelect } from '@/components/ui/native-select';
+import { RuleParamsEditor, RuleEditorOptions } from '@/components/rule-editors';
+import { analyzeRules } from '@/lib/rule-analysis';
+import { printRuleDsl } from '@/lib/rule-dsl';
+import { RuleDslEditor } from '@/components/rule-dsl-editor';
+import { isCoveredByRules, recommendRules } from '@/lib/recommendations';
+import { RuleRecommendations } from '@/components/rule-recommendations';
+import { RuleTemplateLibrary } from '@/components/rule-template-library';
+import { ConfigImportDialog } from '@/components/config-import-dialog';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Download, Upload, Bot, PlusCircle, ShieldAlert, GripVertical } from 'lucide-react';
 import { toast } from 'sonner';
 
 // Initialize Google Generative AI
 const genAI = new GoogleGenerativeAI(process.env.NEXT_PUBLIC_GEMINI_API_KEY!);
 
 interface RulesTabProps {
-    rules: any[];
-    onUpdate: (rules: any[]) => void;
+    clients: Client[];
+    workers: Worker[];
+    tasks: Task[];
+    rules: Rule[];
+    quarantinedRules: QuarantinedRule[];
+    onUpdate: (rules: Rule[], quarantined?: QuarantinedRule[]) => void;
+    focusedRuleId?: string;
+    dismissedRecommendations: string[];
+    onUpdateDismissedRecommendations: (keys: string[]) => void;
+    templates: RuleTemplate[];
+    onUpdateTemplates: (templates: RuleTemplate[]) => void;
 }
 
-const generateRuleFromAI = async (prompt: string): Promise<any> => {
+const SEVERITY_STYLES: Record<RuleIssue['severity'], string> = {
+    error: 'bg-red-100 text-red-800',
+    warning: 'bg-amber-100 text-amber-800',
+    info: 'bg-blue-100 text-blue-800',
+};
+
+const generateRuleFromAI = async (prompt: string): Promise<unknown> => {
     try {
         const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
         
@@ -36,6 +64,18 @@ const generateRuleFromAI = async (prompt: string): Promise<any> => {
         3. SEQUENTIAL - Tasks that must run in sequence
            Example: { "type": "SEQUENTIAL", "params": { "taskIds": ["T5", "T6"] } }
         
+        4. SLOT_RESTRICTION - A client or worker group must share at least N common available slots
+           Example: { "type": "SLOT_RESTRICTION", "params": { "groupType": "worker", "group": "GroupA", "minCommonSlots": 2 } }
+        
+        5. LOAD_LIMIT - Workers in a group take at most N slots per phase
+           Example: { "type": "LOAD_LIMIT", "params": { "workerGroup": "GroupB", "maxSlotsPerPhase": 3 } }
+        
+        6. PHASE_WINDOW - A task may only run in the given phases (use either "allowedPhases" or "range")
+           Example: { "type": "PHASE_WINDOW", "params": { "taskId": "T7", "range": { "start": 2, "end": 4 } } }
+        
+        7. PRECEDENCE_OVERRIDE - When a CO_RUN rule contradicts an EXCLUSION or SEQUENTIAL rule, one family wins
+           Example: { "type": "PRECEDENCE_OVERRIDE", "params": { "winner": "CO_RUN", "loser": "EXCLUSION" } }
+        
         Input rule: "${prompt}"
         
         Respond with ONLY the JSON object, no additional text or markdown formatting.
@@ -62,9 +102,49 @@ const generateRuleFromAI = async (prompt: string): Promise<any> => {
     }
 };
 
-export const RulesTab: FC<RulesTabProps> = ({ rules, onUpdate }) => {
+export const RulesTab: FC<RulesTabProps> = ({ clients, workers, tasks, rules, quarantinedRules, onUpdate, focusedRuleId, dismissedRecommendations, onUpdateDismissedRecommendations, templates, onUpdateTemplates }) => {
     const [naturalLanguageRule, setNaturalLanguageRule] = useState('');
+    const [newRuleType, setNewRuleType] = useState<RuleType>('CO_RUN');
     const [isConverting, setIsConverting] = useState(false);
+    const [draggedId, setDraggedId] = useState<string | null>(null);
+    const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+    const [announcement, setAnnouncement] = useState('');
+    const [dslDraft, setDslDraft] = useState<string | null>(null);
+    const [pendingImport, setPendingImport] = useState<{ fileName: string; rules: Rule[]; quarantined: QuarantinedRule[] } | null>(null);
+    const [suggestions, setSuggestions] = useState<{ recommendations: RuleRecommendation[]; clients: Client[]; workers: Worker[]; tasks: Task[] } | null>(null);
+    const [isFindingSuggestions, setIsFindingSuggestions] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const dslFileInputRef = useRef<HTMLInputElement>(null);
+    const handleRefs = useRef(new Map<string, HTMLButtonElement>());
+    const pendingFocusId = useRef<string | null>(null);
+
+    const { resolution } = useMemo(() => resolveRules(rules), [rules]);
+    const issues = useMemo(() => analyzeRules(rules, tasks), [rules, tasks]);
+    const importDiff = useMemo(() => pendingImport && diffRules(rules, pendingImport.rules), [pendingImport, rules]);
+    // Rules only hide suggestions they already cover, so mining is not repeated when a rule changes.
+    const recommendations = useMemo(() => suggestions && suggestions.recommendations.filter(r => !isCoveredByRules(r, rules)), [suggestions, rules]);
+    const visibleRecommendations = recommendations && recommendations.filter(r => !dismissedRecommendations.includes(r.key));
+    const suggestionsStale = suggestions !== null && (suggestions.clients !== clients || suggestions.workers !== workers || suggestions.tasks !== tasks);
+    const issueCounts = (['error', 'warning', 'info'] as const)
+        .map(severity => ({ severity, count: issues.filter(i => i.severity === severity).length }))
+        .filter(c => c.count > 0);
+
+    // Moving a rule re-renders the list from the saved order; keep keyboard focus on its handle.
+    useEffect(() => {
+        if (!pendingFocusId.current) return;
+        handleRefs.current.get(pendingFocusId.current)?.focus();
+        pendingFocusId.current = null;
+    }, [rules]);
+
+    const editorOptions = useMemo<RuleEditorOptions>(() => {
+        const distinct = (values: unknown[]) =>
+            Array.from(new Set(values.map(v => String(v ?? '').trim()).filter(Boolean))).sort();
+        return {
+            clientGroups: distinct(clients.map(c => c.ClientGroup)),
+            workerGroups: distinct(workers.map(w => w.WorkerGroup)),
+            taskIds: distinct(tasks.map(t => t.TaskID)),
+        };
+    }, [clients, workers, tasks]);
 
     const handleNaturalLanguageConvert = async () => {
         if (!naturalLanguageRule.trim()) {
@@ -75,16 +155,12 @@ export const RulesTab: FC<RulesTabProps> = ({ rules, onUpdate }) => {
         setIsConverting(true);
         try {
             const aiResponseJson = await generateRuleFromAI(naturalLanguageRule);
-            
-            if (!aiResponseJson.type || !aiResponseJson.params) {
-                throw new Error("Invalid rule format from AI");
+            const result = validateRule({ ...(aiResponseJson as object), id: generateUniqueId() });
+            if (!result.ok) {
+                throw new Error(`Invalid rule from AI: ${result.errors.join(' ')}`);
             }
 
-            onUpdate([...rules, { 
-                id: generateUniqueId(), 
-                type: aiResponseJson.type,
-                params: aiResponseJson.params 
-            }]);
+            onUpdate([...rules, result.rule]);
             
             setNaturalLanguageRule('');
             toast.success("Rule successfully generated");
@@ -96,18 +172,119 @@ export const RulesTab: FC<RulesTabProps> = ({ rules, onUpdate }) => {
         }
     };
 
-    const addRule = (type: string) => {
-        const newRule = { 
-            id: generateUniqueId(), 
-            type, 
-            params: { taskIds: [] } 
-        };
-        onUpdate([...rules, newRule]);
+    const addRule = (type: RuleType) => {
+        onUpdate([...rules, createRule(type, generateUniqueId())]);
+    };
+
+    const updateRuleParams = (id: string, newParams: Rule['params']) => {
+        const rule = rules.find(r => r.id === id);
+        const result = validateRule({ ...rule, params: newParams });
+        if (!result.ok) {
+            toast.error(`Rule not updated: ${result.errors.join(' ')}`);
+            return;
+        }
+        onUpdate(rules.map(r => r.id === id ? result.rule : r));
+    };
+
+    const moveRule = (id: string, toIndex: number) => {
+        const fromIndex = rules.findIndex(r => r.id === id);
+        if (fromIndex === -1 || toIndex < 0 || toIndex >= rules.length || toIndex === fromIndex) return;
+        const reordered = rules.slice();
+        const [moved] = reordered.splice(fromIndex, 1);
+        reordered.splice(toIndex, 0, moved);
+        onUpdate(reordered);
+        setAnnouncement(`${RULE_LABELS[moved.type]} rule moved to position ${toIndex + 1} of ${rules.length}.`);
+    };
+
+    const handleReorderKey = (e: React.KeyboardEvent, id: string, index: number) => {
+        const targets: Record<string, number> = { ArrowUp: index - 1, ArrowDown: index + 1, Home: 0, End: rules.length - 1 };
+        if (!(e.key in targets)) return;
+        e.preventDefault();
+        pendingFocusId.current = id;
+        moveRule(id, targets[e.key]);
+    };
+
+    const handleDrop = (targetId: string) => {
+        if (draggedId) moveRule(draggedId, rules.findIndex(r => r.id === targetId));
+        setDraggedId(null);
+        setDropTargetId(null);
+    };
+
+    const exportRules = () => {
+        downloadJson({ rules, resolution }, 'rules.json');
+    };
+
+    // Mining runs a full allocation, which takes seconds on large data, so it only runs when asked.
+    const findSuggestions = () => {
+        setIsFindingSuggestions(true);
+        // Let the button show that it is busy before the work holds up the page.
+        setTimeout(() => {
+            try {
+                setSuggestions({ recommendations: recommendRules(clients, workers, tasks, rules), clients, workers, tasks });
+            } catch (error: any) {
+                toast.error(`Could not find suggestions: ${error.message}`);
+            } finally {
+                setIsFindingSuggestions(false);
+            }
+        }, 0);
+    };
+
+    const acceptRecommendation = (recommendation: RuleRecommendation) => {
+        const result = validateRule({ ...recommendation.rule, id: generateUniqueId() });
+        if (!result.ok) {
+            toast.error(`Suggested rule is invalid: ${result.errors.join(' ')}`);
+            return;
+        }
+        onUpdate([...rules, result.rule]);
+        toast.success(`${RULE_LABELS[result.rule.type]} rule added`);
+    };
+
+    const dismissRecommendation = (recommendation: RuleRecommendation) => {
+        onUpdateDismissedRecommendations([...dismissedRecommendations, recommendation.key]);
     };
 
-    const updateRuleParams = (id: string, newParams: any) => {
-        const updatedRules = rules.map(r => 
-            r.id === id ? { ...r, params: newParams } : r
+    const handleDslImport = async (file: File) => {
+        try {
+            setDslDraft(await file.text());
+            toast.info("Rules text loaded into the editor below. Review it, then apply.");
+        } catch (error: any) {
+            toast.error(`Failed to read rules text: ${error.message}`);
+        }
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            // Accepts a plain rules array or an exported { rules, resolution } file.
+            const parsed = JSON.parse(await file.text());
+            const { rules: imported, quarantined } = partitionRules(
+                parsed && !Array.isArray(parsed) && 'rules' in parsed ? parsed.rules : parsed
+            );
+            setPendingImport({ fileName: file.name, rules: imported, quarantined });
+        } catch (error: any) {
+            toast.error(`Failed to import rules: ${error.message}`);
+        }
+    };
+
+    const applyImport = (mode: 'replace' | 'merge') => {
+        if (!pendingImport) return;
+        if (mode === 'replace') {
+            onUpdate(pendingImport.rules, pendingImport.quarantined);
+        } else {
+            onUpdate(mergeRules(rules, pendingImport.rules), [...quarantinedRules, ...pendingImport.quarantined]);
+        }
+        toast.success(`${mode === 'replace' ? 'Replaced rules with' : 'Merged'} ${pendingImport.rules.length} rule(s) from ${pendingImport.fileName}`);
+        setPendingImport(null);
+    };
+
+    const ruleSummary = (rule: Rule) => `${RULE_LABELS[rule.type]}: ${describeRule(rule)}${rule.disabled ? ' (disabled)' : ''}`;
+
+    const discardQuarantined = (index: number) => {
+        onUpdate(rules, quarantinedRules.filter((_, i) => i !== index));
+    };
+
+    const toggleRule = (id: string) => {
+        const updatedRules = rules.map(r =>
+            r.id === id ? { ...r, disabled: !r.disabled } : r
         );
         onUpdate(updatedRules);
     };
@@ -143,78 +320,265 @@ export const RulesTab: FC<RulesTabProps> = ({ rules, onUpdate }) => {
                 </CardContent>
             </Card>
 
+            <RuleRecommendations
+                recommendations={visibleRecommendations}
+                dismissedCount={(recommendations?.length ?? 0) - (visibleRecommendations?.length ?? 0)}
+                stale={suggestionsStale}
+                isFinding={isFindingSuggestions}
+                onFind={findSuggestions}
+                onAccept={acceptRecommendation}
+                onDismiss={dismissRecommendation}
+                onRestoreDismissed={() => onUpdateDismissedRecommendations(dismissedRecommendations.filter(key => !recommendations?.some(r => r.key === key)))}
+            />
+
+            <RuleTemplateLibrary
+                templates={templates}
+                tasks={tasks}
+                workers={workers}
+                rules={rules}
+                onUpdateTemplates={onUpdateTemplates}
+                onAddRules={newRules => onUpdate([...rules, ...newRules])}
+            />
+
             <Card>
                 <CardHeader>
                      <div className="flex justify-between items-center">
                         <div>
                             <CardTitle>Defined Rules</CardTitle>
-                            <CardDescription>Manually add or edit allocation rules.</CardDescription>
+                            <CardDescription>
+                                Manually add or edit allocation rules. Rules are listed in priority order: when two rules
+                                contradict, the higher one wins unless a Precedence Override rule says otherwise. Drag a
+                                rule by its handle, or focus the handle and use the arrow keys, to reorder.
+                            </CardDescription>
                         </div>
-                        <div className="flex gap-2">
+                        <div className="flex flex-wrap justify-end gap-2">
+                            <NativeSelect
+                                className="w-44"
+                                value={newRuleType}
+                                onChange={e => setNewRuleType(e.target.value as RuleType)}
+                            >
+                                {RULE_TYPES.map(type => (
+                                    <option key={type} value={type}>{RULE_LABELS[type]}</option>
+                                ))}
+                            </NativeSelect>
                             <Button 
                                 variant="secondary" 
-                                onClick={() => addRule('CO_RUN')}
+                                onClick={() => addRule(newRuleType)}
                             >
-                                <PlusCircle className="mr-2 h-4 w-4" /> Add Co-run Rule
+                                <PlusCircle className="mr-2 h-4 w-4" /> Add Rule
                             </Button>
                             <Button 
                                 variant="outline" 
-                                onClick={() => downloadJson(rules, 'rules.json')}
+                                onClick={exportRules}
+                            >
+                                <Download className="mr-2 h-4 w-4" /> Export JSON
+                            </Button>
+                            <Button
+                                variant="outline"
+                                onClick={() => fileInputRef.current?.click()}
+                            >
+                                <Upload className="mr-2 h-4 w-4" /> Import JSON
+                            </Button>
+                            <Button
+                                variant="outline"
+                                onClick={() => downloadText(printRuleDsl(rules), 'rules.txt')}
+                            >
+                                <Download className="mr-2 h-4 w-4" /> Export Text
+                            </Button>
+                            <Button
+                                variant="outline"
+                                onClick={() => dslFileInputRef.current?.click()}
                             >
-                                <Download className="mr-2 h-4 w-4" /> Export
+                                <Upload className="mr-2 h-4 w-4" /> Import Text
                             </Button>
+                            <input
+                                ref={dslFileInputRef}
+                                type="file"
+                                accept=".txt,.rules,text/plain"
+                                className="hidden"
+                                onChange={e => {
+                                    const file = e.target.files?.[0];
+                                    if (file) handleDslImport(file);
+                                    e.target.value = '';
+                                }}
+                            />
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                accept=".json,application/json"
+                                className="hidden"
+                                onChange={e => {
+                                    const file = e.target.files?.[0];
+                                    if (file) handleImport(file);
+                                    e.target.value = '';
+                                }}
+                            />
                         </div>
                      </div>
                 </CardHeader>
                 <CardContent className="space-y-4">
+                    {quarantinedRules.length > 0 && (
+                        <Alert variant="destructive">
+                            <ShieldAlert className="h-4 w-4" />
+                            <AlertTitle>Quarantined Rules ({quarantinedRules.length})</AlertTitle>
+                            <AlertDescription>
+                                <p>These rules are malformed or of an unknown type and are ignored until fixed or discarded.</p>
+                                <ul className="mt-2 space-y-2 w-full">
+                                    {quarantinedRules.map((q, index) => (
+                                        <li key={index} className="flex justify-between items-start gap-4">
+                                            <div className="min-w-0">
+                                                <code className="block text-xs truncate">{JSON.stringify(q.raw)}</code>
+                                                <p className="text-xs">{q.errors.join(' ')}</p>
+                                            </div>
+                                            <Button variant="outline" size="sm" onClick={() => discardQuarantined(index)}>
+                                                Discard
+                                            </Button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </AlertDescription>
+                        </Alert>
+                    )}
+                    <p className="sr-only" aria-live="polite">{announcement}</p>
+                    {issueCounts.length > 0 && (
+                        <div className="flex items-center gap-2 text-sm">
+                            <span className="font-medium">Rule analysis:</span>
+                            {issueCounts.map(({ severity, count }) => (
+                                <span key={severity} className={`rounded-full px-2 py-0.5 text-xs font-medium ${SEVERITY_STYLES[severity]}`}>
+                                    {count} {severity}{count === 1 ? '' : 's'}
+                                </span>
+                            ))}
+                        </div>
+                    )}
                     <div className="space-y-4 pt-4">
                         {rules.length === 0 ? (
                             <div className="text-center py-8 text-muted-foreground">
                                 No rules defined yet. Add rules using the AI generator or manual buttons.
                             </div>
                         ) : (
-                            rules.map(rule => (
-                                <div key={rule.id} className="border p-4 rounded-md bg-secondary/50">
-                                    <div className="flex justify-between items-start">
-                                        <h4 className="font-semibold text-foreground">
-                                            {rule.type.replace('_', ' ')} Rule
-                                        </h4>
-                                        <Button 
-                                            variant="ghost" 
-                                            size="sm" 
-                                            onClick={() => deleteRule(rule.id)}
-                                            className="text-red-500 hover:text-red-600"
-                                        >
-                                            Delete
-                                        </Button>
-                                    </div>
-                                    
-                                    {['CO_RUN', 'EXCLUSION', 'SEQUENTIAL'].includes(rule.type) && (
-                                        <div className="mt-2 space-y-2">
-                                            <label className="text-sm font-medium">
-                                                Task IDs (comma-separated):
-                                            </label>
-                                            <Input
-                                                value={rule.params.taskIds?.join(', ') || ''}
-                                                onChange={e => updateRuleParams(
-                                                    rule.id, 
-                                                    { 
-                                                        taskIds: e.target.value
-                                                            .split(',')
-                                                            .map(s => s.trim())
-                                                            .filter(Boolean)
-                                                    }
+                            rules.map((rule, index) => {
+                                const status = resolution[index];
+                                const winnerIndex = rules.findIndex(r => r.id === status.overriddenBy);
+                                return (
+                                    <div
+                                        key={rule.id}
+                                        data-rule-card
+                                        ref={rule.id === focusedRuleId ? (el: HTMLDivElement | null) => el?.scrollIntoView({ behavior: 'smooth', block: 'center' }) : undefined}
+                                        onDragOver={e => {
+                                            if (!draggedId) return;
+                                            e.preventDefault();
+                                            setDropTargetId(rule.id);
+                                        }}
+                                        onDrop={e => {
+                                            e.preventDefault();
+                                            handleDrop(rule.id);
+                                        }}
+                                        className={`border p-4 rounded-md bg-secondary/50 ${rule.disabled || status.status === 'overridden' ? 'opacity-60' : ''} ${rule.id === focusedRuleId ? 'ring-2 ring-yellow-500' : ''} ${rule.id === dropTargetId && draggedId !== rule.id ? 'border-primary border-dashed' : ''}`}
+                                    >
+                                        <div className="flex justify-between items-start">
+                                            <div className="flex items-center gap-2">
+                                                <Button
+                                                    ref={el => {
+                                                        if (el) handleRefs.current.set(rule.id, el);
+                                                        else handleRefs.current.delete(rule.id);
+                                                    }}
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-7 w-7 cursor-grab"
+                                                    draggable
+                                                    aria-label={`Reorder rule #${index + 1}. Use arrow keys to move it up or down.`}
+                                                    onKeyDown={e => handleReorderKey(e, rule.id, index)}
+                                                    onDragStart={e => {
+                                                        const card = e.currentTarget.closest('[data-rule-card]');
+                                                        if (card) e.dataTransfer.setDragImage(card, 0, 0);
+                                                        e.dataTransfer.effectAllowed = 'move';
+                                                        setDraggedId(rule.id);
+                                                    }}
+                                                    onDragEnd={() => {
+                                                        setDraggedId(null);
+                                                        setDropTargetId(null);
+                                                    }}
+                                                >
+                                                    <GripVertical className="h-4 w-4" />
+                                                </Button>
+                                                <span className="font-mono text-xs text-muted-foreground">#{index + 1}</span>
+                                                <h4 className="font-semibold text-foreground">
+                                                    {RULE_LABELS[rule.type]} Rule {rule.disabled && '(Disabled)'}
+                                                </h4>
+                                                {status.status === 'overridden' && (
+                                                    <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+                                                        Overridden by Rule #{winnerIndex + 1}
+                                                    </span>
                                                 )}
-                                                placeholder="T1, T2, T3"
-                                            />
+                                            </div>
+                                            <div className="flex gap-1">
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() => toggleRule(rule.id)}
+                                                >
+                                                    {rule.disabled ? 'Enable' : 'Disable'}
+                                                </Button>
+                                                <Button 
+                                                    variant="ghost" 
+                                                    size="sm" 
+                                                    onClick={() => deleteRule(rule.id)}
+                                                    className="text-red-500 hover:text-red-600"
+                                                >
+                                                    Delete
+                                                </Button>
+                                            </div>
                                         </div>
-                                    )}
-                                </div>
-                            ))
+                                    
+                                        <RuleParamsEditor
+                                            rule={rule}
+                                            options={editorOptions}
+                                            onChange={params => updateRuleParams(rule.id, params)}
+                                        />
+                                        {issues.some(i => i.ruleId === rule.id) && (
+                                            <ul className="mt-3 space-y-1">
+                                                {issues.filter(i => i.ruleId === rule.id).map((issue, issueIndex) => (
+                                                    <li key={issueIndex} className="flex items-start gap-2 text-sm">
+                                                        <span className={`shrink-0 rounded-full px-2 py-0.5 text-xs font-medium uppercase ${SEVERITY_STYLES[issue.severity]}`}>
+                                                            {issue.severity}
+                                                        </span>
+                                                        <span>{issue.message}</span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </div>
+                                );
+                            })
                         )}
                     </div>
                 </CardContent>
             </Card>
+
+            <ConfigImportDialog
+                open={pendingImport !== null}
+                title={`Import ${pendingImport?.fileName ?? 'rules'}`}
+                description="Review how the file differs from the current rules. Merge keeps current rules and updates matching ids; Replace makes the file the new rules list."
+                warnings={[
+                    ...(pendingImport?.quarantined.length ? [`${pendingImport.quarantined.length} entry(ies) in the file are malformed and will be quarantined: ${pendingImport.quarantined.map(q => q.errors.join(' ')).join(' | ')}`] : []),
+                    ...(importDiff?.reordered ? ['Rules present in both lists are in a different order in the file. Replacing changes their precedence.'] : []),
+                ]}
+                sections={importDiff ? [
+                    { title: 'Added', items: importDiff.added.map(ruleSummary) },
+                    { title: 'Changed', items: importDiff.changed.map(({ before, after }) => `${ruleSummary(before)} → ${ruleSummary(after)}`) },
+                    { title: 'Removed', items: importDiff.removed.map(ruleSummary), replaceOnly: true },
+                ] : []}
+                onReplace={() => applyImport('replace')}
+                onMerge={() => applyImport('merge')}
+                onCancel={() => setPendingImport(null)}
+            />
+
+            <RuleDslEditor
+                rules={rules}
+                draft={dslDraft}
+                onDraftChange={setDslDraft}
+                onApply={newRules => onUpdate(newRules)}
+            />
         </div>
     );
 };
\ No newline at end of file
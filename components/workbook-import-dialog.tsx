@@ -0,0 +1,186 @@
+"use client";
+
+import { FC, useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { ColumnMapping, EntityType, ImportMode, SavedColumnMapping } from '@/types';
+import { ParsedSheet } from '@/lib/file-import';
+import { classifySheet, mappingSignature, missingRequiredFields, suggestColumnMapping } from '@/lib/column-mapping';
+import { IMPORT_MODES } from '@/lib/import-merge';
+import { ColumnMappingDialog } from './column-mapping-dialog';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Button } from './ui/button';
+import { NativeSelect } from './ui/native-select';
+
+export interface SheetImport {
+    entityType: EntityType;
+    sheet: ParsedSheet;
+    mapping: ColumnMapping[];
+    remember: boolean;
+}
+
+interface WorkbookImportDialogProps {
+    fileName: string;
+    sheets: ParsedSheet[];
+    savedMappings: SavedColumnMapping[];
+    onConfirm: (imports: SheetImport[], mode: ImportMode) => void;
+    onCancel: () => void;
+}
+
+const ENTITY_LABELS: { [K in EntityType]: string } = { clients: 'Clients', workers: 'Workers', tasks: 'Tasks' };
+
+export const WorkbookImportDialog: FC<WorkbookImportDialogProps> = ({ fileName, sheets, savedMappings, onConfirm, onCancel }) => {
+    const classifications = useMemo(() => sheets.map(sheet => classifySheet(sheet.headers)), [sheets]);
+    const [assignments, setAssignments] = useState<(EntityType | null)[]>(() => {
+        // Each entity goes to the sheet that matches it best; weaker matches start as ignored.
+        const best = new Map<EntityType, number>();
+        classifications.forEach((c, i) => {
+            if (c.entityType && (!best.has(c.entityType) || c.scores[c.entityType] > classifications[best.get(c.entityType)!].scores[c.entityType])) {
+                best.set(c.entityType, i);
+            }
+        });
+        return classifications.map((c, i) => (c.entityType && best.get(c.entityType) === i ? c.entityType : null));
+    });
+    // Mappings reviewed in this dialog, keyed by sheet index and entity.
+    const [reviewed, setReviewed] = useState<Record<string, { mapping: ColumnMapping[]; remember: boolean }>>({});
+    const [reviewing, setReviewing] = useState<number | null>(null);
+    const [mode, setMode] = useState<ImportMode>('replace');
+
+    const savedFor = (index: number, entityType: EntityType) =>
+        savedMappings.find(m => m.signature === mappingSignature(entityType, sheets[index].headers))?.columns;
+
+    const mappingFor = (index: number, entityType: EntityType): ColumnMapping[] =>
+        reviewed[`${index}:${entityType}`]?.mapping
+        ?? savedFor(index, entityType)
+        ?? suggestColumnMapping(entityType, sheets[index].headers).map(({ source, target }) => ({ source, target }));
+
+    const planned = assignments
+        .map((entityType, index) => entityType && { index, entityType, mapping: mappingFor(index, entityType) })
+        .filter((p): p is { index: number; entityType: EntityType; mapping: ColumnMapping[] } => !!p);
+    const blocked = planned.filter(p => missingRequiredFields(p.entityType, p.mapping).length > 0);
+
+    const assign = (index: number, entityType: EntityType | null) =>
+        setAssignments(assignments.map((current, i) => (i === index ? entityType : current === entityType ? null : current)));
+
+    const confirm = () => onConfirm(planned.map(({ index, entityType, mapping }) => ({
+        entityType,
+        sheet: sheets[index],
+        mapping,
+        remember: reviewed[`${index}:${entityType}`]?.remember ?? true,
+    })), mode);
+
+    if (reviewing !== null && assignments[reviewing]) {
+        const entityType = assignments[reviewing]!;
+        const sheet = sheets[reviewing];
+        return (
+            <ColumnMappingDialog
+                fileName={`${fileName} › ${sheet.name}`}
+                entityType={entityType}
+                rows={sheet.rows}
+                suggestions={suggestColumnMapping(entityType, sheet.headers)}
+                saved={savedFor(reviewing, entityType)}
+                initial={reviewed[`${reviewing}:${entityType}`]?.mapping}
+                confirmLabel="Use Mapping"
+                onConfirm={(mapping, remember) => {
+                    setReviewed({ ...reviewed, [`${reviewing}:${entityType}`]: { mapping, remember } });
+                    setReviewing(null);
+                }}
+                onCancel={() => setReviewing(null)}
+            />
+        );
+    }
+
+    return (
+        <Dialog open onOpenChange={isOpen => !isOpen && onCancel()}>
+            <DialogContent className="sm:max-w-4xl">
+                <DialogHeader>
+                    <DialogTitle>Import {fileName}</DialogTitle>
+                    <DialogDescription>
+                        Confirm what each sheet contains and how it combines with the data loaded now.
+                        Data sets without a sheet are left as they are.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="max-h-[60vh] overflow-y-auto space-y-4">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Sheet</TableHead>
+                                <TableHead>Rows</TableHead>
+                                <TableHead>Import as</TableHead>
+                                <TableHead>Columns</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {sheets.map((sheet, index) => {
+                                const entityType = assignments[index];
+                                const mapping = entityType ? mappingFor(index, entityType) : [];
+                                const missing = entityType ? missingRequiredFields(entityType, mapping) : [];
+                                return (
+                                    <TableRow key={sheet.name}>
+                                        <TableCell>
+                                            <p className="font-medium">{sheet.name}</p>
+                                            <p className="text-xs text-muted-foreground max-w-64 truncate">{sheet.headers.join(', ')}</p>
+                                        </TableCell>
+                                        <TableCell>{sheet.rows.length}</TableCell>
+                                        <TableCell>
+                                            <NativeSelect
+                                                aria-label={`Data in sheet ${sheet.name}`}
+                                                value={entityType ?? ''}
+                                                onChange={e => assign(index, (e.target.value || null) as EntityType | null)}
+                                            >
+                                                <option value="">Ignore sheet</option>
+                                                {(Object.keys(ENTITY_LABELS) as EntityType[]).map(type => (
+                                                    <option key={type} value={type}>
+                                                        {ENTITY_LABELS[type]}
+                                                        {classifications[index].entityType === type ? ' (detected)' : ''}
+                                                    </option>
+                                                ))}
+                                            </NativeSelect>
+                                        </TableCell>
+                                        <TableCell>
+                                            {entityType && (
+                                                <div className="flex items-center gap-2 text-sm">
+                                                    {missing.length > 0 ? (
+                                                        <span className="flex gap-1 text-amber-700">
+                                                            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" /> No {missing.join(', ')} column
+                                                        </span>
+                                                    ) : (
+                                                        <span className="text-muted-foreground">
+                                                            {mapping.filter(m => m.target).length} of {mapping.length} mapped
+                                                        </span>
+                                                    )}
+                                                    <Button variant="outline" size="sm" onClick={() => setReviewing(index)}>Review</Button>
+                                                </div>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                );
+                            })}
+                        </TableBody>
+                    </Table>
+                    <div className="space-y-1 text-sm">
+                        <label htmlFor="workbook-import-mode" className="font-semibold">Existing data</label>
+                        <NativeSelect id="workbook-import-mode" className="w-64" value={mode} onChange={e => setMode(e.target.value as ImportMode)}>
+                            {(Object.keys(IMPORT_MODES) as ImportMode[]).map(m => (
+                                <option key={m} value={m}>{IMPORT_MODES[m].label}</option>
+                            ))}
+                        </NativeSelect>
+                        <p className="text-muted-foreground">{IMPORT_MODES[mode].description}</p>
+                    </div>
+                    {blocked.length > 0 && (
+                        <p className="flex gap-2 text-sm text-amber-700">
+                            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                            Review the columns of {blocked.map(p => sheets[p.index].name).join(', ')} or ignore {blocked.length === 1 ? 'that sheet' : 'those sheets'}.
+                        </p>
+                    )}
+                </div>
+                <DialogFooter>
+                    <Button variant="ghost" onClick={onCancel}>Cancel</Button>
+                    <Button disabled={planned.length === 0 || blocked.length > 0} onClick={confirm}>
+                        Import {planned.map(p => ENTITY_LABELS[p.entityType]).join(', ') || 'Nothing'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -2,9 +2,19 @@
 
 import { useState, useEffect } from 'react';
 import { onAuthStateChanged, User, signInAnonymously } from 'firebase/auth';
-import { doc, onSnapshot, collection, writeBatch, getDocs, setDoc } from 'firebase/firestore';
+import { doc, onSnapshot, collection, writeBatch, setDoc, WriteBatch } from 'firebase/firestore';
 import { auth, db, __app_id } from '@/lib/firebase';
-import { Client, Worker, Task, EntityType } from '@/types';
+import { Client, Worker, Task, EntityType, Scenario, Rule, QuarantinedRule, RuleTemplate, Priorities, PriorityPreset, WeightingSettings, SavedColumnMapping, AttributeSchema } from '@/types';
+import { partitionRules } from '@/lib/rules';
+import { isRuleTemplate } from '@/lib/templates';
+import { defaultPreset, isPriorityPreset, isScenario } from '@/lib/presets';
+import { DEFAULT_WEIGHTING, parseWeightingSettings } from '@/lib/rank-weights';
+import { isAttributeSchema } from '@/lib/attributes';
+import { ImportWrites } from '@/lib/import-merge';
+import { isSavedColumnMapping } from '@/lib/column-mapping';
+
+// Firestore accepts at most 500 writes in one batch.
+const BATCH_LIMIT = 500;
 
 export const useFirestoreData = () => {
     const [user, setUser] = useState<User | null>(null);
@@ -12,8 +22,17 @@ export const useFirestoreData = () => {
     const [clients, setClients] = useState<Client[]>([]);
     const [workers, setWorkers] = useState<Worker[]>([]);
     const [tasks, setTasks] = useState<Task[]>([]);
-    const [rules, setRules] = useState<any[]>([]);
-    const [priorities, setPriorities] = useState<any>({ fulfill: 50, workload: 30, priority: 20 });
+    const [rules, setRules] = useState<Rule[]>([]);
+    const [quarantinedRules, setQuarantinedRules] = useState<QuarantinedRule[]>([]);
+    // Null until a priorities document exists; the default preset stands in until then.
+    const [priorities, setPriorities] = useState<Partial<Priorities> | null>(null);
+    const [weighting, setWeighting] = useState<WeightingSettings>(DEFAULT_WEIGHTING);
+    const [presets, setPresets] = useState<PriorityPreset[]>([]);
+    const [scenarios, setScenarios] = useState<Scenario[]>([]);
+    const [dismissedRecommendations, setDismissedRecommendations] = useState<string[]>([]);
+    const [templates, setTemplates] = useState<RuleTemplate[]>([]);
+    const [columnMappings, setColumnMappings] = useState<SavedColumnMapping[]>([]);
+    const [attributeSchema, setAttributeSchema] = useState<AttributeSchema | null>(null);
 
     useEffect(() => {
         const unsubscribe = onAuthStateChanged(auth, async (user) => {
@@ -50,33 +69,95 @@ export const useFirestoreData = () => {
 
         const rulesDocRef = doc(db, `artifacts/${__app_id}/users/${user.uid}/config/rules`);
         const unsubRules = onSnapshot(rulesDocRef, (doc) => {
-            if (doc.exists()) setRules(doc.data().rules || []);
+            if (doc.exists()) {
+                const { rules, quarantined } = partitionRules(doc.data().rules || []);
+                setRules(rules);
+                setQuarantinedRules(quarantined);
+            }
         });
 
         const prioritiesDocRef = doc(db, `artifacts/${__app_id}/users/${user.uid}/config/priorities`);
         const unsubPriorities = onSnapshot(prioritiesDocRef, (doc) => {
-            if (doc.exists()) setPriorities(doc.data().priorities || {});
+            if (doc.exists()) {
+                setPriorities(doc.data().priorities || {});
+                setWeighting(parseWeightingSettings(doc.data().weighting));
+            }
+        });
+
+        const presetsDocRef = doc(db, `artifacts/${__app_id}/users/${user.uid}/config/presets`);
+        const unsubPresets = onSnapshot(presetsDocRef, (doc) => {
+            if (doc.exists()) setPresets((doc.data().presets || []).filter(isPriorityPreset));
+        });
+
+        const scenariosDocRef = doc(db, `artifacts/${__app_id}/users/${user.uid}/config/scenarios`);
+        const unsubScenarios = onSnapshot(scenariosDocRef, (doc) => {
+            if (doc.exists()) setScenarios((doc.data().scenarios || []).filter(isScenario));
+        });
+
+        const dismissedDocRef = doc(db, `artifacts/${__app_id}/users/${user.uid}/config/dismissedRecommendations`);
+        const unsubDismissed = onSnapshot(dismissedDocRef, (doc) => {
+            if (doc.exists()) setDismissedRecommendations(doc.data().dismissedRecommendations || []);
+        });
+
+        const templatesDocRef = doc(db, `artifacts/${__app_id}/users/${user.uid}/config/templates`);
+        const unsubTemplates = onSnapshot(templatesDocRef, (doc) => {
+            if (doc.exists()) setTemplates((doc.data().templates || []).filter(isRuleTemplate));
+        });
+
+        const columnMappingsDocRef = doc(db, `artifacts/${__app_id}/users/${user.uid}/config/columnMappings`);
+        const unsubColumnMappings = onSnapshot(columnMappingsDocRef, (doc) => {
+            if (doc.exists()) setColumnMappings((doc.data().columnMappings || []).filter(isSavedColumnMapping));
+        });
+
+        // A cleared schema is stored as null; one that no longer parses is ignored rather than half-applied.
+        const attributeSchemaDocRef = doc(db, `artifacts/${__app_id}/users/${user.uid}/config/attributeSchema`);
+        const unsubAttributeSchema = onSnapshot(attributeSchemaDocRef, (doc) => {
+            if (doc.exists()) {
+                const schema = doc.data().attributeSchema;
+                setAttributeSchema(isAttributeSchema(schema) ? schema : null);
+            }
         });
 
         return () => {
             unsubscribes.forEach(unsub => unsub());
             unsubRules();
             unsubPriorities();
+            unsubPresets();
+            unsubScenarios();
+            unsubDismissed();
+            unsubTemplates();
+            unsubColumnMappings();
+            unsubAttributeSchema();
         };
     }, [isAuthReady, user]);
 
-    const saveDataToFirestore = async (entityType: EntityType, data: any[]) => {
+    // Writes only what an import changes: the added and changed rows, and deletes for the removed ones.
+    // Matched rows keep their document id, so they are overwritten in place. The writes of all
+    // collections, e.g. a workbook's clients, workers and tasks, are split into batches of BATCH_LIMIT.
+    // Each batch commits on its own, so the save is not atomic: if one fails, the batches before it
+    // stay written and the error says how far the save got.
+    const saveImportToFirestore = async (writes: Partial<Record<EntityType, ImportWrites>>) => {
         if (!isAuthReady || !user) throw new Error("Auth not ready.");
-        const collPath = `artifacts/${__app_id}/users/${user.uid}/${entityType}`;
-        const batch = writeBatch(db);
-        const querySnapshot = await getDocs(collection(db, collPath));
-        querySnapshot.forEach(doc => batch.delete(doc.ref));
-        data.forEach(item => {
-            const { id, ...rest } = item;
-            const docRef = doc(db, collPath, id);
-            batch.set(docRef, rest);
+        const uid = user.uid;
+        const operations = (Object.entries(writes) as [EntityType, ImportWrites][]).flatMap(([entityType, { set, remove }]) => {
+            const collPath = `artifacts/${__app_id}/users/${uid}/${entityType}`;
+            return [
+                ...remove.map(id => (batch: WriteBatch) => batch.delete(doc(db, collPath, id))),
+                ...set.map(item => {
+                    const { id, ...rest } = item;
+                    return (batch: WriteBatch) => batch.set(doc(db, collPath, id), rest);
+                }),
+            ];
         });
-        await batch.commit();
+        for (let start = 0; start < operations.length; start += BATCH_LIMIT) {
+            const batch = writeBatch(db);
+            operations.slice(start, start + BATCH_LIMIT).forEach(write => write(batch));
+            try {
+                await batch.commit();
+            } catch (error: any) {
+                throw new Error(`${start} of ${operations.length} changes were saved before the save failed (${error.message}). Import the file again to write the rest.`);
+            }
+        }
     };
     
     const saveSingleDocToFirestore = async (entityType: EntityType, item: any) => {
@@ -84,14 +165,27 @@ export const useFirestoreData = () => {
         const { id, ...rest } = item;
         if (!id) throw new Error("Item must have an ID to be saved.");
         const docRef = doc(db, `artifacts/${__app_id}/users/${user.uid}/${entityType}/${id}`);
-        await setDoc(docRef, rest, { merge: true });
+        // Callers pass the whole normalized row, so an overwrite is what removes a field that was cleared.
+        await setDoc(docRef, rest);
     };
 
-    const saveConfigToFirestore = async (configType: 'rules' | 'priorities', data: any) => {
+    const saveConfigToFirestore = async (configType: 'rules' | 'presets' | 'scenarios' | 'dismissedRecommendations' | 'templates' | 'columnMappings' | 'attributeSchema', data: any) => {
         if (!isAuthReady || !user) throw new Error("Auth not ready.");
         const docRef = doc(db, `artifacts/${__app_id}/users/${user.uid}/config/${configType}`);
         await setDoc(docRef, { [configType]: data });
     };
 
-    return { user, isAuthReady, clients, workers, tasks, rules, priorities, saveDataToFirestore, saveSingleDocToFirestore, saveConfigToFirestore };
+    // The weighting settings share the priorities document so the weights and the view that set them stay in step.
+    const savePrioritiesToFirestore = async (newPriorities: Priorities, newWeighting: WeightingSettings = weighting) => {
+        if (!isAuthReady || !user) throw new Error("Auth not ready.");
+        const docRef = doc(db, `artifacts/${__app_id}/users/${user.uid}/config/priorities`);
+        await setDoc(docRef, { priorities: newPriorities, weighting: newWeighting });
+    };
+
+    // Quarantined entries are written back untouched so they stay visible until explicitly discarded.
+    const saveRulesToFirestore = async (newRules: Rule[], quarantined: QuarantinedRule[] = quarantinedRules) => {
+        await saveConfigToFirestore('rules', [...newRules, ...quarantined.map(q => q.raw)]);
+    };
+
+    return { user, isAuthReady, clients, workers, tasks, rules, quarantinedRules, priorities: priorities ?? defaultPreset(presets).priorities, weighting, presets, scenarios, dismissedRecommendations, templates, columnMappings, attributeSchema, saveImportToFirestore, saveSingleDocToFirestore, saveConfigToFirestore, saveRulesToFirestore, savePrioritiesToFirestore };
 };
\ No newline at end of file
@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Client, Worker as WorkerRow, Task, ValidationError, AttributeSchema } from '@/types';
+import { ParsedSheet, TextParseSettings } from '@/lib/file-import';
+import { ImportPlan } from '@/lib/import-merge';
+import { PipelineCancelledError, PipelineMessage, PipelineRequest, PlanRequest } from '@/lib/import-pipeline';
+
+export interface PipelineProgress {
+    stage: string;
+    done: number;
+    total: number;
+}
+
+interface Job {
+    request: PipelineRequest;
+    resolve: (value: any) => void;
+    reject: (error: Error) => void;
+    // Parse jobs assemble their sheets here as chunks arrive.
+    sheets: ParsedSheet[];
+    result?: unknown;
+    // Only tracked jobs drive the progress bar; background validation does not.
+    tracked: boolean;
+}
+
+type RequestWithoutId = PipelineRequest extends infer R ? (R extends PipelineRequest ? Omit<R, 'jobId'> : never) : never;
+
+// Runs the import pipeline in a Web Worker. Cancelling terminates the worker, which stops work
+// mid-file, and rejects the user's jobs with PipelineCancelledError. Background jobs such as
+// validation are not the user's to cancel, so they start again on a new worker.
+const createPipeline = (onProgress: (progress: PipelineProgress | null) => void) => {
+    let worker: Worker | null = null;
+    let nextJobId = 1;
+    const jobs = new Map<number, Job>();
+
+    const finish = (jobId: number, settle: (job: Job) => void) => {
+        const job = jobs.get(jobId);
+        if (!job) return;
+        jobs.delete(jobId);
+        if (job.tracked) onProgress(null);
+        settle(job);
+    };
+
+    const handleMessage = (event: MessageEvent<PipelineMessage>) => {
+        const message = event.data;
+        const job = jobs.get(message.jobId);
+        if (!job) return;
+        switch (message.kind) {
+            case 'progress':
+                if (job.tracked) onProgress({ stage: message.stage, done: message.done, total: message.total });
+                break;
+            case 'sheet':
+                job.sheets[message.index] = { name: message.name, headers: message.headers, rows: [] };
+                break;
+            case 'rows': {
+                const rows = job.sheets[message.index].rows;
+                message.rows.forEach(row => rows.push(row));
+                break;
+            }
+            case 'plan':
+                job.result = message.plans;
+                break;
+            case 'validation':
+                job.result = message.errors;
+                break;
+            case 'done':
+                finish(message.jobId, j => j.resolve(j.result ?? j.sheets.filter(Boolean)));
+                break;
+            case 'error':
+                finish(message.jobId, j => j.reject(new Error(message.message)));
+                break;
+        }
+    };
+
+    const getWorker = () => {
+        if (!worker) {
+            worker = new Worker(new URL('../lib/import.worker.ts', import.meta.url));
+            worker.onmessage = handleMessage;
+            worker.onerror = event => {
+                Array.from(jobs.keys()).forEach(jobId => finish(jobId, j => j.reject(new Error(event.message || 'The import worker failed.'))));
+            };
+        }
+        return worker;
+    };
+
+    const run = <T,>(request: RequestWithoutId, tracked: boolean) => new Promise<T>((resolve, reject) => {
+        const jobId = nextJobId++;
+        const fullRequest = { ...request, jobId } as PipelineRequest;
+        jobs.set(jobId, { request: fullRequest, resolve, reject, sheets: [], tracked });
+        if (tracked) onProgress({ stage: 'Starting', done: 0, total: 1 });
+        getWorker().postMessage(fullRequest);
+    });
+
+    // Stops the worker and hands back the jobs it was running; a new worker starts on the next request.
+    const teardown = () => {
+        worker?.terminate();
+        worker = null;
+        const pending = Array.from(jobs.values());
+        jobs.clear();
+        onProgress(null);
+        return pending;
+    };
+
+    const cancel = () => {
+        teardown().forEach(job => {
+            if (job.tracked) {
+                job.reject(new PipelineCancelledError());
+                return;
+            }
+            jobs.set(job.request.jobId, { ...job, sheets: [], result: undefined });
+            getWorker().postMessage(job.request);
+        });
+    };
+
+    return {
+        parseText: (file: File, settings: TextParseSettings) => run<ParsedSheet[]>({ kind: 'parse-text', file, settings }, true),
+        parseWorkbook: (file: File) => run<ParsedSheet[]>({ kind: 'parse-workbook', file }, true),
+        planImports: (requests: PlanRequest[]) => run<ImportPlan[]>({ kind: 'plan', requests }, true),
+        validate: (clients: Client[], workers: WorkerRow[], tasks: Task[], attributeSchema: AttributeSchema | null = null) =>
+            run<ValidationError[]>({ kind: 'validate', clients, workers, tasks, attributeSchema }, false),
+        cancel,
+        // Every pending job is settled, so nothing waits on a worker that is gone.
+        dispose: () => teardown().forEach(job => job.reject(new PipelineCancelledError())),
+    };
+};
+
+export const useImportPipeline = () => {
+    const [progress, setProgress] = useState<PipelineProgress | null>(null);
+    // Created once, so its functions are stable across renders.
+    const [pipeline] = useState(() => createPipeline(setProgress));
+
+    useEffect(() => pipeline.dispose, [pipeline]);
+
+    return { progress, ...pipeline };
+};
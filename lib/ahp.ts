@@ -0,0 +1,67 @@
+import { CriterionKey, Priorities } from '@/types';
+import { normalizeWeights } from '@/lib/criteria';
+
+// Analytic Hierarchy Process: every pair of criteria gets a judgment on Saaty's 1-9 scale, where
+// a judgment of 3 for (a, b) means a matters 3x more than b and 1/3 means b matters 3x more than a.
+
+export const SAATY_SCALE = [9, 7, 5, 3, 1, 1 / 3, 1 / 5, 1 / 7, 1 / 9];
+
+// Judgments with a consistency ratio above this are usually revisited.
+export const CONSISTENCY_THRESHOLD = 0.1;
+
+// Saaty's random consistency index by matrix size.
+const RANDOM_INDEX = [0, 0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45, 1.49];
+
+export type PairwiseJudgments = Record<string, number>;
+
+export interface AhpResult {
+    weights: Priorities;
+    lambdaMax: number;
+    consistencyRatio: number;
+    // The judgment furthest from the ratio the derived weights imply, to revisit first.
+    worstPair?: { a: CriterionKey; b: CriterionKey; judged: number; implied: number };
+}
+
+export const pairKey = (a: CriterionKey, b: CriterionKey) => `${a}:${b}`;
+
+export const criterionPairs = (keys: CriterionKey[]): [CriterionKey, CriterionKey][] =>
+    keys.flatMap((a, i) => keys.slice(i + 1).map(b => [a, b] as [CriterionKey, CriterionKey]));
+
+// Reads the judgment for (a, b) whichever way round it was stored. Missing pairs count as equal.
+export const judgmentFor = (judgments: PairwiseJudgments, a: CriterionKey, b: CriterionKey) => {
+    if (judgments[pairKey(a, b)] !== undefined) return judgments[pairKey(a, b)];
+    if (judgments[pairKey(b, a)] !== undefined) return 1 / judgments[pairKey(b, a)];
+    return 1;
+};
+
+// Derives weights from the principal eigenvector of the comparison matrix (by power iteration)
+// and scores how consistent the judgments are. Criteria left out of keys get weight 0.
+export const ahpWeights = (keys: CriterionKey[], judgments: PairwiseJudgments): AhpResult => {
+    const n = keys.length;
+    const matrix = keys.map(a => keys.map(b => (a === b ? 1 : judgmentFor(judgments, a, b))));
+    let vector = keys.map(() => 1 / n);
+    for (let iteration = 0; iteration < 100; iteration++) {
+        const product = matrix.map(row => row.reduce((sum, value, j) => sum + value * vector[j], 0));
+        const total = product.reduce((sum, v) => sum + v, 0);
+        const next = product.map(v => v / total);
+        const converged = next.every((v, i) => Math.abs(v - vector[i]) < 1e-9);
+        vector = next;
+        if (converged) break;
+    }
+
+    const lambdaMax = n ? matrix.reduce((sum, row, i) => sum + row.reduce((s, value, j) => s + value * vector[j], 0) / vector[i], 0) / n : 0;
+    const consistencyIndex = n > 2 ? (lambdaMax - n) / (n - 1) : 0;
+    const randomIndex = RANDOM_INDEX[Math.min(n, RANDOM_INDEX.length - 1)];
+    const deviations = criterionPairs(keys).map(([a, b]) => {
+        const judged = judgmentFor(judgments, a, b);
+        const implied = vector[keys.indexOf(a)] / vector[keys.indexOf(b)];
+        return { a, b, judged, implied, error: Math.abs(Math.log(judged / implied)) };
+    });
+    const worst = deviations.reduce<typeof deviations[number] | undefined>((max, d) => (!max || d.error > max.error ? d : max), undefined);
+    return {
+        weights: normalizeWeights(Object.fromEntries(keys.map((key, i) => [key, vector[i]]))),
+        lambdaMax,
+        consistencyRatio: randomIndex ? Math.max(0, consistencyIndex / randomIndex) : 0,
+        worstPair: worst && { a: worst.a, b: worst.b, judged: worst.judged, implied: worst.implied },
+    };
+};
@@ -0,0 +1,618 @@
+import { Client, Worker, Task, EntityType, Priorities, Assignment, UnassignedRequest, AllocationPlan, AllocationMetrics, ReasonCode, ReasonEntry, ReasonRef, Rule, TaskGroupRule } from '@/types';
+import { isTaskGroupRule, phaseWindowPhases, phaseWindowRuns, resolveRules } from '@/lib/rules';
+import { toList, toNumber, parsePhases } from '@/lib/values';
+import { CRITERIA, CriterionContext } from '@/lib/criteria';
+
+// Rules are evaluated per client: CO_RUN tasks go to the same worker starting in the same phase,
+// EXCLUSION tasks never overlap in phase, and SEQUENTIAL tasks start after the previous one ends.
+
+interface WorkerProfile {
+    id: string;
+    skills: Set<string>;
+    slots: Set<number>;
+    maxLoad: number;
+    maxConcurrent: number;
+    loadLimit?: { max: number; ruleId: string };
+}
+
+interface TaskProfile {
+    id: string;
+    skills: string[];
+    duration: number;
+    preferred: number[];
+    windows: { ruleId: string; phases: number[]; runs: string }[];
+}
+
+interface Unit {
+    clientId: string;
+    tasks: TaskProfile[];
+}
+
+interface Predecessor {
+    unit: Unit;
+    ruleIds: string[];
+}
+
+interface RuleGroup {
+    ruleId: string;
+    taskIds: string[];
+}
+
+interface RejectionGroup {
+    code: ReasonCode;
+    detail: string;
+    refs: ReasonRef[];
+    phases: number[];
+}
+
+interface Strategy {
+    name: string;
+    order: 'priority' | 'demand';
+    pick: 'least-loaded' | 'first-fit';
+}
+
+const STRATEGIES: Strategy[] = [
+    { name: 'priority-balanced', order: 'priority', pick: 'least-loaded' },
+    { name: 'priority-packed', order: 'priority', pick: 'first-fit' },
+    { name: 'demand-balanced', order: 'demand', pick: 'least-loaded' },
+    { name: 'demand-packed', order: 'demand', pick: 'first-fit' },
+];
+
+// When nothing fits, the summary reason comes from the first code in this list that was hit.
+const FAILURE_PRECEDENCE: ReasonCode[] = [
+    'MAX_LOAD_REACHED',
+    'MAX_CONCURRENT_REACHED',
+    'LOAD_LIMIT_REACHED',
+    'SLOT_UNAVAILABLE',
+    'EXCLUSION_BLOCKED',
+    'OUTSIDE_PREFERRED_PHASES',
+    'OUTSIDE_PHASE_WINDOW',
+    'NO_PHASE_AFTER_PREDECESSOR',
+];
+
+const FAILURE_SUMMARIES: { [code in ReasonCode]?: string } = {
+    MAX_LOAD_REACHED: 'All skilled workers have reached MaxLoadPerPhase in the allowed phases.',
+    MAX_CONCURRENT_REACHED: 'All skilled workers have reached MaxConcurrent in the allowed phases.',
+    LOAD_LIMIT_REACHED: 'All skilled workers are at their WorkerGroup LOAD_LIMIT in the allowed phases.',
+    SLOT_UNAVAILABLE: 'No skilled worker is available in the allowed phases.',
+    EXCLUSION_BLOCKED: 'An EXCLUSION rule blocks every allowed phase.',
+    OUTSIDE_PREFERRED_PHASES: 'No phase satisfies PreferredPhases and Duration.',
+    OUTSIDE_PHASE_WINDOW: 'No phase satisfies the PHASE_WINDOW rule and Duration.',
+    NO_PHASE_AFTER_PREDECESSOR: 'No phase is available after the preceding SEQUENTIAL task.',
+};
+
+const DEFAULT_PRIORITY_LEVEL = 3;
+
+// Client weight for priority scoring: PriorityLevel 1 is the most important.
+const clientWeight = (client: Client) => 6 - toNumber(client.PriorityLevel, DEFAULT_PRIORITY_LEVEL);
+
+const ruleGroups = (rules: Rule[], type: TaskGroupRule['type']): RuleGroup[] =>
+    rules
+        .filter(isTaskGroupRule)
+        .filter(r => !r.disabled && r.type === type)
+        .map(r => ({ ruleId: r.id, taskIds: r.params.taskIds }));
+
+const rowRef = (entityType: EntityType, id: string, field?: string): ReasonRef =>
+    ({ kind: 'row', entityType, id, field });
+
+const ruleRef = (ruleId: string): ReasonRef => ({ kind: 'rule', ruleId });
+
+const phaseList = (phases: number[]) => phases.length === 1 ? `phase ${phases[0]}` : `phases ${phases.join(', ')}`;
+
+// Collects per-phase rejections into one entry per cause, listing the phases it applied to. A busy
+// plan rejects the same worker for the same reason at every start phase, so a cause's detail is only
+// described the first time it is hit. Start phases are tried in ascending order.
+const createRejectionLog = () => {
+    const groups = new Map<ReasonCode, Map<string, RejectionGroup>>();
+    const ordered: RejectionGroup[] = [];
+    const reject = (code: ReasonCode, subject: string, phase: number, describe: () => Pick<RejectionGroup, 'detail' | 'refs'>) => {
+        if (!groups.has(code)) groups.set(code, new Map());
+        const bySubject = groups.get(code)!;
+        const group = bySubject.get(subject);
+        if (!group) {
+            const created = { code, ...describe(), phases: [phase] };
+            bySubject.set(subject, created);
+            ordered.push(created);
+        } else if (group.phases[group.phases.length - 1] !== phase) {
+            group.phases.push(phase);
+        }
+    };
+    const summarize = (): ReasonEntry[] => ordered.map(({ code, detail, refs, phases }) => ({
+        code,
+        message: `${detail} in ${phaseList(phases)}.`,
+        refs,
+    }));
+    return { reject, summarize };
+};
+
+// The tightest enabled LOAD_LIMIT on a worker's group caps its per-phase load on top of MaxLoadPerPhase.
+const buildWorkerProfiles = (workers: Worker[], rules: Rule[]): WorkerProfile[] =>
+    workers
+        .filter(w => w.WorkerID)
+        .map(w => {
+            const loadLimit = rules
+                .flatMap(r => !r.disabled && r.type === 'LOAD_LIMIT' && w.WorkerGroup && r.params.workerGroup === w.WorkerGroup
+                    ? [{ max: r.params.maxSlotsPerPhase, ruleId: r.id }]
+                    : [])
+                .reduce<WorkerProfile['loadLimit']>((tightest, limit) => !tightest || limit.max < tightest.max ? limit : tightest, undefined);
+            return {
+                id: w.WorkerID,
+                skills: new Set(toList(w.Skills)),
+                slots: new Set(parsePhases(w.AvailableSlots)),
+                maxLoad: toNumber(w.MaxLoadPerPhase, Infinity),
+                maxConcurrent: toNumber(w.MaxConcurrent, Infinity),
+                loadLimit,
+            };
+        })
+        .sort((a, b) => a.id.localeCompare(b.id));
+
+const buildTaskProfiles = (tasks: Task[], rules: Rule[]): Map<string, TaskProfile> =>
+    new Map(tasks.filter(t => t.TaskID).map(t => [t.TaskID, {
+        id: t.TaskID,
+        skills: toList(t.RequiredSkills),
+        duration: toNumber(t.Duration, 1),
+        preferred: parsePhases(t.PreferredPhases),
+        windows: rules.flatMap(r => !r.disabled && r.type === 'PHASE_WINDOW' && r.params.taskId === t.TaskID
+            ? [{ ruleId: r.id, phases: phaseWindowPhases(r), runs: phaseWindowRuns(r) }]
+            : []),
+    }]));
+
+// Groups a client's requested tasks into units that must be placed together (CO_RUN) and
+// orders them so every SEQUENTIAL predecessor is placed before its successors.
+const buildClientUnits = (
+    client: Client,
+    taskProfiles: Map<string, TaskProfile>,
+    tasks: Task[],
+    rules: Rule[],
+    unassigned: UnassignedRequest[],
+): { units: Unit[]; predecessors: Map<Unit, Predecessor[]> } => {
+    const reject = (taskId: string, reason: string, trace: ReasonEntry[]) =>
+        unassigned.push({ clientId: client.ClientID, taskId, reason, trace });
+
+    const requested: TaskProfile[] = [];
+    Array.from(new Set(toList(client.RequestedTaskIDs))).forEach(taskId => {
+        const profile = taskProfiles.get(taskId);
+        if (profile) {
+            requested.push(profile);
+        } else {
+            const reason = `Unknown TaskID: ${taskId}.`;
+            reject(taskId, reason, [{ code: 'UNKNOWN_TASK', message: reason, refs: [rowRef('clients', client.ClientID, 'RequestedTaskIDs')] }]);
+        }
+    });
+    const requestedIds = new Set(requested.map(t => t.id));
+
+    const parent = new Map(requested.map(t => [t.id, t.id]));
+    const find = (id: string): string => {
+        const p = parent.get(id)!;
+        if (p === id) return id;
+        const root = find(p);
+        parent.set(id, root);
+        return root;
+    };
+    const union = (ids: string[]) => {
+        const present = ids.filter(id => requestedIds.has(id));
+        present.slice(1).forEach(id => parent.set(find(id), find(present[0])));
+    };
+    ruleGroups(rules, 'CO_RUN').forEach(g => union(g.taskIds));
+    tasks.forEach(t => {
+        if (requestedIds.has(t.TaskID)) union([t.TaskID, ...toList(t.CoRunTaskIDs)]);
+    });
+
+    const unitsByRoot = new Map<string, Unit>();
+    requested.forEach(t => {
+        const root = find(t.id);
+        if (!unitsByRoot.has(root)) unitsByRoot.set(root, { clientId: client.ClientID, tasks: [] });
+        unitsByRoot.get(root)!.tasks.push(t);
+    });
+    const units = Array.from(unitsByRoot.values());
+    const unitOf = (taskId: string) => unitsByRoot.get(find(taskId))!;
+
+    const predecessors = new Map<Unit, Predecessor[]>(units.map(u => [u, []]));
+    const blocked = new Map<Unit, string[]>();
+    ruleGroups(rules, 'SEQUENTIAL').forEach(({ ruleId, taskIds }) => {
+        const present = taskIds.filter(id => requestedIds.has(id));
+        for (let i = 1; i < present.length; i++) {
+            const before = unitOf(present[i - 1]);
+            const after = unitOf(present[i]);
+            if (before === after) {
+                blocked.set(after, [...(blocked.get(after) || []), ruleId]);
+                continue;
+            }
+            const existing = predecessors.get(after)!.find(p => p.unit === before);
+            if (existing) existing.ruleIds.push(ruleId);
+            else predecessors.get(after)!.push({ unit: before, ruleIds: [ruleId] });
+        }
+    });
+
+    const ordered: Unit[] = [];
+    const pending = units.filter(u => !blocked.has(u));
+    let progressed = true;
+    while (pending.length > 0 && progressed) {
+        progressed = false;
+        for (let i = 0; i < pending.length; i++) {
+            const unit = pending[i];
+            if (predecessors.get(unit)!.every(p => ordered.includes(p.unit) || blocked.has(p.unit))) {
+                ordered.push(unit);
+                pending.splice(i, 1);
+                progressed = true;
+                break;
+            }
+        }
+    }
+
+    blocked.forEach((ruleIds, unit) => unit.tasks.forEach(t => {
+        const reason = 'Tasks must both co-run and run sequentially.';
+        reject(t.id, reason, [{
+            code: 'CO_RUN_SEQUENTIAL_CONFLICT',
+            message: `${unit.tasks.map(u => u.id).join(', ')} are grouped to co-run but a SEQUENTIAL rule orders them.`,
+            refs: ruleIds.map(ruleRef),
+        }]);
+    }));
+    pending.forEach(unit => unit.tasks.forEach(t => {
+        const reason = 'Part of a SEQUENTIAL cycle.';
+        const ruleIds = Array.from(new Set(predecessors.get(unit)!.flatMap(p => p.ruleIds)));
+        reject(t.id, reason, [{
+            code: 'SEQUENTIAL_CYCLE',
+            message: `${t.id} depends on itself through a cycle of SEQUENTIAL rules.`,
+            refs: ruleIds.map(ruleRef),
+        }]);
+    }));
+
+    return { units: ordered, predecessors };
+};
+
+const buildPlan = (
+    strategy: Strategy,
+    clients: Client[],
+    workers: Worker[],
+    tasks: Task[],
+    rules: Rule[],
+): Omit<AllocationPlan, 'score' | 'metrics'> => {
+    const taskProfiles = buildTaskProfiles(tasks, rules);
+    const workerProfiles = buildWorkerProfiles(workers, rules);
+    const coRunGroups = ruleGroups(rules, 'CO_RUN');
+    const exclusionGroups = ruleGroups(rules, 'EXCLUSION');
+    const phases = Array.from(new Set([
+        ...workerProfiles.flatMap(w => Array.from(w.slots)),
+        ...Array.from(taskProfiles.values()).flatMap(t => t.preferred),
+    ])).sort((a, b) => a - b);
+
+    const workerLoad: AllocationPlan['workerLoad'] = {};
+    workerProfiles.forEach(w => { workerLoad[w.id] = {}; });
+    const loadOf = (workerId: string, phase: number) => workerLoad[workerId][phase] || 0;
+    const totalLoad = (workerId: string) => Object.values(workerLoad[workerId]).reduce((sum, n) => sum + n, 0);
+
+    const assignments: Assignment[] = [];
+    const unassigned: UnassignedRequest[] = [];
+
+    const orderedClients = clients.filter(c => c.ClientID).slice().sort((a, b) => {
+        if (strategy.order === 'demand') {
+            const diff = toList(a.RequestedTaskIDs).length - toList(b.RequestedTaskIDs).length;
+            if (diff !== 0) return diff;
+        }
+        return clientWeight(b) - clientWeight(a) || a.ClientID.localeCompare(b.ClientID);
+    });
+
+    orderedClients.forEach(client => {
+        const { units, predecessors } = buildClientUnits(client, taskProfiles, tasks, rules, unassigned);
+        const placed = new Map<Unit, number[]>();
+        const clientAssignments: Assignment[] = [];
+
+        const fail = (unit: Unit, reason: string, trace: ReasonEntry[]) => unit.tasks.forEach(t =>
+            unassigned.push({ clientId: client.ClientID, taskId: t.id, reason, trace }));
+
+        units.forEach(unit => {
+            const unitIds = unit.tasks.map(t => t.id);
+            const missingPredecessor = predecessors.get(unit)!.find(p => !placed.has(p.unit));
+            if (missingPredecessor) {
+                const predecessorIds = missingPredecessor.unit.tasks.map(t => t.id).join(', ');
+                fail(unit, `Predecessor ${predecessorIds} was not assigned.`, [{
+                    code: 'PREDECESSOR_UNASSIGNED',
+                    message: `${predecessorIds} must run first but could not be assigned.`,
+                    refs: missingPredecessor.ruleIds.map(ruleRef),
+                }]);
+                return;
+            }
+            const earliest = Math.max(0, ...predecessors.get(unit)!.map(p => Math.max(...placed.get(p.unit)!) + 1));
+
+            const requiredSkills = Array.from(new Set(unit.tasks.flatMap(t => t.skills)));
+            const skilled = workerProfiles.filter(w => requiredSkills.every(s => w.skills.has(s)));
+            if (skilled.length === 0) {
+                const reason = `No worker has all required skills: ${requiredSkills.join(', ')}.`;
+                fail(unit, reason, [{
+                    code: 'NO_SKILLED_WORKER',
+                    message: reason,
+                    refs: unit.tasks.filter(t => t.skills.length > 0).map(t => rowRef('tasks', t.id, 'RequiredSkills')),
+                }]);
+                return;
+            }
+
+            // Checked before any span is built: a Duration such as Infinity or 1e9 cannot be laid out
+            // phase by phase, and one longer than the timeline never fits anyway.
+            const badDuration = unit.tasks.filter(t => !Number.isInteger(t.duration) || t.duration < 1 || t.duration > phases.length);
+            if (badDuration.length > 0) {
+                fail(unit, 'Duration must be a whole number of phases that fits the timeline.', badDuration.map(t => ({
+                    code: 'INVALID_DURATION',
+                    message: `${t.id} has Duration ${t.duration}; it must be a whole number from 1 to ${phases.length}, the number of phases.`,
+                    refs: [rowRef('tasks', t.id, 'Duration')],
+                })));
+                return;
+            }
+
+            const { reject, summarize } = createRejectionLog();
+            const candidates: { worker: WorkerProfile; start: number }[] = [];
+            const starts = phases.filter(p => p >= earliest);
+            // Only the earliest feasible start is used, so later starts are not tried once one fits.
+            for (const start of starts) {
+                if (candidates.length > 0) break;
+                const spans = unit.tasks.map(t => Array.from({ length: t.duration }, (_, i) => start + i));
+                const outsidePreferred = unit.tasks.filter((t, i) => t.preferred.length > 0 && spans[i].some(p => !t.preferred.includes(p)));
+                if (outsidePreferred.length > 0) {
+                    outsidePreferred.forEach(t => reject('OUTSIDE_PREFERRED_PHASES', t.id, start, () => ({
+                        detail: `${t.id} (Duration ${t.duration}) would run outside its PreferredPhases when starting`,
+                        refs: [rowRef('tasks', t.id, 'PreferredPhases')],
+                    })));
+                    continue;
+                }
+                let outsideWindow = false;
+                unit.tasks.forEach((t, i) => t.windows.forEach(w => {
+                    if (spans[i].every(p => w.phases.includes(p))) return;
+                    outsideWindow = true;
+                    reject('OUTSIDE_PHASE_WINDOW', `${w.ruleId}:${t.id}`, start, () => ({
+                        detail: `${t.id} (Duration ${t.duration}) would run outside its PHASE_WINDOW (${w.runs}) when starting`,
+                        refs: [ruleRef(w.ruleId)],
+                    }));
+                }));
+                if (outsideWindow) continue;
+                let excluded = false;
+                unit.tasks.forEach((t, i) => clientAssignments.forEach(a => {
+                    const group = exclusionGroups.find(g => g.taskIds.includes(t.id) && g.taskIds.includes(a.taskId));
+                    if (group && a.phases.some(p => spans[i].includes(p))) {
+                        excluded = true;
+                        reject('EXCLUSION_BLOCKED', `${group.ruleId}:${t.id}:${a.taskId}`, start, () => ({
+                            detail: `${t.id} would overlap ${a.taskId}, which an EXCLUSION rule forbids, when starting`,
+                            refs: [ruleRef(group.ruleId)],
+                        }));
+                    }
+                }));
+                if (excluded) continue;
+                // How many of the unit's tasks run in each phase, the same for every worker.
+                const counts = new Map<number, number>();
+                spans.flat().forEach(p => counts.set(p, (counts.get(p) || 0) + 1));
+                const demand = Array.from(counts);
+                const exceeds = (worker: WorkerProfile, max: number) => demand.some(([p, n]) => loadOf(worker.id, p) + n > max);
+                skilled.forEach(worker => {
+                    if (demand.some(([p]) => !worker.slots.has(p))) {
+                        reject('SLOT_UNAVAILABLE', worker.id, start, () => ({
+                            detail: `${worker.id} has no AvailableSlots for the full duration when starting`,
+                            refs: [rowRef('workers', worker.id, 'AvailableSlots')],
+                        }));
+                        return;
+                    }
+                    if (exceeds(worker, worker.maxLoad)) {
+                        reject('MAX_LOAD_REACHED', worker.id, start, () => ({
+                            detail: `${worker.id} would exceed MaxLoadPerPhase (${worker.maxLoad}) when starting`,
+                            refs: [rowRef('workers', worker.id, 'MaxLoadPerPhase')],
+                        }));
+                        return;
+                    }
+                    if (exceeds(worker, worker.maxConcurrent)) {
+                        reject('MAX_CONCURRENT_REACHED', worker.id, start, () => ({
+                            detail: `${worker.id} would exceed MaxConcurrent (${worker.maxConcurrent}) when starting`,
+                            refs: [rowRef('workers', worker.id, 'MaxConcurrent')],
+                        }));
+                        return;
+                    }
+                    const limit = worker.loadLimit;
+                    if (limit && exceeds(worker, limit.max)) {
+                        reject('LOAD_LIMIT_REACHED', worker.id, start, () => ({
+                            detail: `${worker.id} would exceed its WorkerGroup LOAD_LIMIT (${limit.max}) when starting`,
+                            refs: [ruleRef(limit.ruleId), rowRef('workers', worker.id, 'WorkerGroup')],
+                        }));
+                        return;
+                    }
+                    candidates.push({ worker, start });
+                });
+            }
+
+            if (candidates.length === 0) {
+                const trace = summarize();
+                if (starts.length === 0) {
+                    trace.push({
+                        code: 'NO_PHASE_AFTER_PREDECESSOR',
+                        message: `No phase exists after phase ${earliest - 1}, when the preceding SEQUENTIAL task ends.`,
+                        refs: predecessors.get(unit)!.flatMap(p => p.ruleIds).map(ruleRef),
+                    });
+                }
+                const primary = FAILURE_PRECEDENCE.find(code => trace.some(e => e.code === code));
+                fail(unit, FAILURE_SUMMARIES[primary || 'NO_PHASE_AFTER_PREDECESSOR']!, trace);
+                return;
+            }
+
+            // Every candidate shares the earliest feasible start, and everything logged was passed over before it.
+            const chosen = strategy.pick === 'least-loaded'
+                ? candidates.reduce((best, c) => totalLoad(c.worker.id) < totalLoad(best.worker.id) ? c : best)
+                : candidates[0];
+            const passedOver = summarize();
+
+            const unitPhases: number[] = [];
+            unit.tasks.forEach(t => {
+                const taskPhases = Array.from({ length: t.duration }, (_, i) => chosen.start + i);
+                taskPhases.forEach(p => {
+                    workerLoad[chosen.worker.id][p] = loadOf(chosen.worker.id, p) + 1;
+                });
+                unitPhases.push(...taskPhases);
+
+                const trace: ReasonEntry[] = [{
+                    code: 'SKILL_MATCH',
+                    message: t.skills.length > 0
+                        ? `${chosen.worker.id} has the required skills: ${t.skills.join(', ')}.`
+                        : `${t.id} requires no specific skills.`,
+                    refs: t.skills.length > 0
+                        ? [rowRef('workers', chosen.worker.id, 'Skills'), rowRef('tasks', t.id, 'RequiredSkills')]
+                        : [rowRef('tasks', t.id, 'RequiredSkills')],
+                }, {
+                    code: 'PHASE_SELECTED',
+                    message: `Placed in ${phaseList(taskPhases)}, the earliest feasible placement for Duration ${t.duration}.`,
+                    refs: [rowRef('tasks', t.id, 'Duration'), rowRef('workers', chosen.worker.id, 'AvailableSlots')],
+                }];
+                if (t.preferred.length > 0) {
+                    trace.push({
+                        code: 'PREFERRED_PHASES_MET',
+                        message: `The placement falls within PreferredPhases ${t.preferred.join(', ')}.`,
+                        refs: [rowRef('tasks', t.id, 'PreferredPhases')],
+                    });
+                }
+                t.windows.forEach(w => trace.push({
+                    code: 'PHASE_WINDOW_MET',
+                    message: `The placement falls within the PHASE_WINDOW ${w.runs}.`,
+                    refs: [ruleRef(w.ruleId)],
+                }));
+                const partners = unitIds.filter(id => id !== t.id);
+                if (partners.length > 0) {
+                    const refs: ReasonRef[] = [
+                        ...coRunGroups.filter(g => g.taskIds.includes(t.id) && partners.some(id => g.taskIds.includes(id))).map(g => ruleRef(g.ruleId)),
+                        ...tasks.filter(task => unitIds.includes(task.TaskID) && toList(task.CoRunTaskIDs).some(id => unitIds.includes(id)))
+                            .map(task => rowRef('tasks', task.TaskID, 'CoRunTaskIDs')),
+                    ];
+                    trace.push({ code: 'CO_RUN_GROUPED', message: `Placed with the same worker and start phase as ${partners.join(', ')}.`, refs });
+                }
+                predecessors.get(unit)!.forEach(p => trace.push({
+                    code: 'SEQUENTIAL_AFTER',
+                    message: `Starts after ${p.unit.tasks.map(u => u.id).join(', ')}, which ends in phase ${Math.max(...placed.get(p.unit)!)}.`,
+                    refs: p.ruleIds.map(ruleRef),
+                }));
+                trace.push({
+                    code: 'WORKER_CHOSEN',
+                    message: strategy.pick === 'least-loaded'
+                        ? `${chosen.worker.id} was the least-loaded of ${candidates.length} eligible worker(s) in phase ${chosen.start}.`
+                        : `${chosen.worker.id} was the first of ${candidates.length} eligible worker(s) in phase ${chosen.start}.`,
+                    refs: [rowRef('workers', chosen.worker.id)],
+                }, ...passedOver);
+
+                const assignment = { clientId: client.ClientID, taskId: t.id, workerId: chosen.worker.id, phases: taskPhases, trace };
+                assignments.push(assignment);
+                clientAssignments.push(assignment);
+            });
+            placed.set(unit, unitPhases);
+        });
+    });
+
+    return { strategy: strategy.name, phases, assignments, unassigned, workerLoad };
+};
+
+export const computeMetrics = (
+    plan: Pick<AllocationPlan, 'assignments' | 'unassigned' | 'workerLoad'>,
+    clients: Client[],
+): AllocationMetrics => {
+    const requested = plan.assignments.length + plan.unassigned.length;
+    const fulfilled = plan.assignments.length;
+
+    const loads = Object.values(plan.workerLoad).map(byPhase => Object.values(byPhase).reduce((sum, n) => sum + n, 0));
+    const mean = loads.length ? loads.reduce((sum, n) => sum + n, 0) / loads.length : 0;
+    const loadVariance = loads.length ? loads.reduce((sum, n) => sum + (n - mean) ** 2, 0) / loads.length : 0;
+
+    const weights = new Map(clients.map(c => [c.ClientID, clientWeight(c)]));
+    const weightOf = (clientId: string) => weights.get(clientId) ?? 6 - DEFAULT_PRIORITY_LEVEL;
+    const fulfilledWeight = plan.assignments.reduce((sum, a) => sum + weightOf(a.clientId), 0);
+    const requestedWeight = fulfilledWeight + plan.unassigned.reduce((sum, u) => sum + weightOf(u.clientId), 0);
+
+    const levels = new Map(clients.map(c => [c.ClientID, toNumber(c.PriorityLevel, DEFAULT_PRIORITY_LEVEL)]));
+    const fulfillmentByPriority: AllocationMetrics['fulfillmentByPriority'] = {};
+    const tally = (clientId: string, isFulfilled: boolean) => {
+        const level = levels.get(clientId) ?? DEFAULT_PRIORITY_LEVEL;
+        const entry = fulfillmentByPriority[level] || (fulfillmentByPriority[level] = { requested: 0, fulfilled: 0 });
+        entry.requested++;
+        if (isFulfilled) entry.fulfilled++;
+    };
+    plan.assignments.forEach(a => tally(a.clientId, true));
+    plan.unassigned.forEach(u => tally(u.clientId, false));
+
+    return {
+        requested,
+        fulfilled,
+        fulfillmentRate: requested ? fulfilled / requested : 1,
+        loadVariance,
+        priorityFulfillment: requestedWeight ? fulfilledWeight / requestedWeight : 1,
+        fulfillmentByPriority,
+    };
+};
+
+// Counts, per client, the enabled rules a plan breaks. Plans built from a subset of the rules
+// can break the ones that were left out; a CO_RUN group that is only partly assigned counts too.
+// LOAD_LIMIT is counted once per worker and phase over the limit. Rules overridden by precedence are not counted.
+export const countRuleViolations = (plan: Pick<AllocationPlan, 'assignments' | 'unassigned'>, allRules: Rule[], workers: Worker[]): number => {
+    const rules = resolveRules(allRules).effective;
+    const byClient = new Map<string, Assignment[]>();
+    plan.assignments.forEach(a => byClient.set(a.clientId, [...(byClient.get(a.clientId) || []), a]));
+
+    let violations = 0;
+    byClient.forEach((clientAssignments, clientId) => {
+        const find = (taskId: string) => clientAssignments.find(a => a.taskId === taskId);
+        const requested = new Set([
+            ...clientAssignments.map(a => a.taskId),
+            ...plan.unassigned.filter(u => u.clientId === clientId).map(u => u.taskId),
+        ]);
+        ruleGroups(rules, 'CO_RUN').forEach(({ taskIds }) => {
+            const placed = taskIds.map(find).filter((a): a is Assignment => a !== undefined);
+            if (placed.length === 0) return;
+            const [first] = placed;
+            if (placed.length < taskIds.filter(id => requested.has(id)).length || placed.some(a => a.workerId !== first.workerId || a.phases[0] !== first.phases[0])) violations++;
+        });
+        ruleGroups(rules, 'EXCLUSION').forEach(({ taskIds }) => {
+            const placed = taskIds.map(find).filter((a): a is Assignment => a !== undefined);
+            const overlaps = placed.some((a, i) => placed.slice(i + 1).some(b => a.phases.some(p => b.phases.includes(p))));
+            if (overlaps) violations++;
+        });
+        ruleGroups(rules, 'SEQUENTIAL').forEach(({ taskIds }) => {
+            const placed = taskIds.map(find).filter((a): a is Assignment => a !== undefined);
+            const outOfOrder = placed.some((a, i) => i > 0 && Math.min(...a.phases) <= Math.max(...placed[i - 1].phases));
+            if (outOfOrder) violations++;
+        });
+        rules.forEach(rule => {
+            if (rule.disabled || rule.type !== 'PHASE_WINDOW') return;
+            const allowed = phaseWindowPhases(rule);
+            const placed = find(rule.params.taskId);
+            if (placed && placed.phases.some(p => !allowed.includes(p))) violations++;
+        });
+    });
+
+    rules.forEach(rule => {
+        if (rule.disabled || rule.type !== 'LOAD_LIMIT') return;
+        const members = new Set(workers.filter(w => w.WorkerGroup === rule.params.workerGroup).map(w => w.WorkerID));
+        const load = new Map<string, number>();
+        plan.assignments.filter(a => members.has(a.workerId)).forEach(a => a.phases.forEach(p => {
+            const key = `${a.workerId}:${p}`;
+            load.set(key, (load.get(key) || 0) + 1);
+        }));
+        load.forEach(n => { if (n > rule.params.maxSlotsPerPhase) violations++; });
+    });
+    return violations;
+};
+
+// Combines the criterion scores into a single 0-1 score using the prioritization weights.
+export const scorePlan = (context: CriterionContext, priorities: Partial<Priorities>): number => {
+    const totalWeight = CRITERIA.reduce((sum, c) => sum + toNumber(priorities[c.key], 0), 0);
+    if (totalWeight === 0) return 0;
+    return CRITERIA.reduce((sum, c) => sum + toNumber(priorities[c.key], 0) * c.score(context), 0) / totalWeight;
+};
+
+// Builds one candidate plan per strategy and returns the best-scoring one. Ties keep the
+// earlier strategy, so the same inputs always produce the same plan.
+export const allocate = (
+    clients: Client[],
+    workers: Worker[],
+    tasks: Task[],
+    rules: Rule[],
+    priorities: Partial<Priorities>,
+): AllocationPlan => {
+    const { effective } = resolveRules(rules);
+    let best: AllocationPlan | null = null;
+    for (const strategy of STRATEGIES) {
+        const plan = buildPlan(strategy, clients, workers, tasks, effective);
+        const metrics = computeMetrics(plan, clients);
+        const score = scorePlan({ plan, metrics, clients, workers, tasks }, priorities);
+        if (!best || score > best.score) best = { ...plan, metrics, score };
+    }
+    return best!;
+};
@@ -0,0 +1,255 @@
+import { AttributeSchema, AttributeType } from '@/types';
+
+// Client attributes are stored as JSON text in AttributesJSON. This module reads them, checks them
+// against the workspace attribute schema, backs the tree editor and answers attr.* table searches.
+
+export interface AttributeIssue {
+    // JSON path of the value, e.g. $.address.city or $.tags[2].
+    path: string;
+    message: string;
+}
+
+export const ATTRIBUTE_TYPES: AttributeType[] = ['string', 'number', 'integer', 'boolean', 'object', 'array'];
+
+export const formatPath = (segments: (string | number)[]) => segments.reduce<string>((path, segment) => {
+    if (typeof segment === 'number') return `${path}[${segment}]`;
+    return /^[A-Za-z_$][\w$]*$/.test(segment) ? `${path}.${segment}` : `${path}[${JSON.stringify(segment)}]`;
+}, '$');
+
+// undefined when the field is empty; an error when it is not valid JSON.
+export const parseAttributes = (json: string | undefined): { value?: unknown; error?: string } => {
+    if (!json || json.trim() === '') return {};
+    try {
+        return { value: JSON.parse(json) };
+    } catch (error: any) {
+        return { error: error.message };
+    }
+};
+
+const typeOf = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+const matchesType = (value: unknown, type: AttributeType) => {
+    if (type === 'integer') return Number.isInteger(value);
+    return typeOf(value) === type;
+};
+
+const describe = (value: unknown) => (typeOf(value) === 'object' || Array.isArray(value) ? typeOf(value) : JSON.stringify(value));
+
+// Every place `value` breaks `schema`. A value of the wrong type is not looked into further.
+export const checkAttributes = (value: unknown, schema: AttributeSchema, path: (string | number)[] = []): AttributeIssue[] => {
+    const at = formatPath(path);
+    if (schema.type && !matchesType(value, schema.type)) {
+        return [{ path: at, message: `Must be ${schema.type === 'integer' || schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}, got ${describe(value)}.` }];
+    }
+    const issues: AttributeIssue[] = [];
+    if (schema.enum && !schema.enum.some(option => option === value)) {
+        issues.push({ path: at, message: `Must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}, got ${describe(value)}.` });
+    }
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) issues.push({ path: at, message: `Must be at least ${schema.minimum}.` });
+        if (schema.maximum !== undefined && value > schema.maximum) issues.push({ path: at, message: `Must be at most ${schema.maximum}.` });
+    }
+    if (typeOf(value) === 'object') {
+        const record = value as Record<string, unknown>;
+        schema.required?.forEach(key => {
+            if (!(key in record)) issues.push({ path: formatPath([...path, key]), message: 'Is required.' });
+        });
+        Object.entries(record).forEach(([key, child]) => {
+            const property = schema.properties?.[key];
+            if (property) issues.push(...checkAttributes(child, property, [...path, key]));
+            else if (schema.additionalProperties === false) issues.push({ path: formatPath([...path, key]), message: 'Is not a known attribute.' });
+        });
+    }
+    if (Array.isArray(value) && schema.items) {
+        const items = schema.items;
+        value.forEach((item, i) => issues.push(...checkAttributes(item, items, [...path, i])));
+    }
+    return issues;
+};
+
+const isPrimitive = (value: unknown) => value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+// Problems with a schema document, such as one typed into the schema editor. Keywords this subset
+// does not enforce are rejected rather than silently ignored.
+export const schemaProblems = (raw: unknown, where = 'schema'): string[] => {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return [`${where} must be an object.`];
+    const problems: string[] = [];
+    Object.entries(raw as Record<string, unknown>).forEach(([keyword, value]) => {
+        switch (keyword) {
+            case 'type':
+                if (!ATTRIBUTE_TYPES.includes(value as AttributeType)) problems.push(`${where}.type must be one of ${ATTRIBUTE_TYPES.join(', ')}.`);
+                break;
+            case 'enum':
+                if (!Array.isArray(value) || !value.every(isPrimitive)) problems.push(`${where}.enum must be a list of strings, numbers, booleans or null.`);
+                break;
+            case 'minimum':
+            case 'maximum':
+                if (typeof value !== 'number') problems.push(`${where}.${keyword} must be a number.`);
+                break;
+            case 'properties':
+                if (typeof value !== 'object' || value === null || Array.isArray(value)) problems.push(`${where}.properties must be an object.`);
+                else Object.entries(value).forEach(([key, property]) => problems.push(...schemaProblems(property, `${where}.properties.${key}`)));
+                break;
+            case 'required':
+                if (!Array.isArray(value) || !value.every(key => typeof key === 'string')) problems.push(`${where}.required must be a list of keys.`);
+                break;
+            case 'additionalProperties':
+                if (typeof value !== 'boolean') problems.push(`${where}.additionalProperties must be true or false.`);
+                break;
+            case 'items':
+                problems.push(...schemaProblems(value, `${where}.items`));
+                break;
+            case 'description':
+            case 'title':
+            case '$schema':
+                break;
+            default:
+                problems.push(`${where}.${keyword} is not supported.`);
+        }
+    });
+    return problems;
+};
+
+export const isAttributeSchema = (value: unknown): value is AttributeSchema => schemaProblems(value).length === 0;
+
+// The schema for a child of an object or array value, if the schema describes one.
+export const childSchema = (schema: AttributeSchema | undefined, key: string | number) =>
+    typeof key === 'number' ? schema?.items : schema?.properties?.[key];
+
+// Editing model for the tree editor. Numbers are kept as typed until the tree is turned back into
+// JSON, and object entries are a list, so a key can be renamed or duplicated mid-edit without
+// losing a value.
+export type AttributeNode =
+    | { kind: 'string'; value: string }
+    | { kind: 'number'; value: string }
+    | { kind: 'boolean'; value: boolean }
+    | { kind: 'null' }
+    | { kind: 'object'; entries: { key: string; node: AttributeNode }[] }
+    | { kind: 'array'; items: AttributeNode[] };
+
+export type AttributeNodeKind = AttributeNode['kind'];
+
+export const NODE_KINDS: AttributeNodeKind[] = ['string', 'number', 'boolean', 'null', 'object', 'array'];
+
+export const toAttributeNode = (value: unknown): AttributeNode => {
+    if (Array.isArray(value)) return { kind: 'array', items: value.map(toAttributeNode) };
+    if (value === null || value === undefined) return { kind: 'null' };
+    if (typeof value === 'object') return { kind: 'object', entries: Object.entries(value).map(([key, child]) => ({ key, node: toAttributeNode(child) })) };
+    if (typeof value === 'number') return { kind: 'number', value: String(value) };
+    if (typeof value === 'boolean') return { kind: 'boolean', value };
+    return { kind: 'string', value: String(value) };
+};
+
+// A blank node of the given kind, starting from the schema's first allowed value when it lists some.
+export const emptyNode = (kind: AttributeNodeKind, schema?: AttributeSchema): AttributeNode => {
+    const first = schema?.enum?.find(option => typeOf(option) === (kind === 'number' ? 'number' : kind));
+    switch (kind) {
+        case 'string': return { kind, value: typeof first === 'string' ? first : '' };
+        case 'number': return { kind, value: typeof first === 'number' ? String(first) : '' };
+        case 'boolean': return { kind, value: false };
+        case 'null': return { kind };
+        case 'object': return { kind, entries: [] };
+        case 'array': return { kind, items: [] };
+    }
+};
+
+// The node kind a schema asks for, for new entries.
+export const nodeKindFor = (schema?: AttributeSchema): AttributeNodeKind => {
+    if (schema?.type === 'integer') return 'number';
+    if (schema?.type) return schema.type;
+    const first = schema?.enum?.[0];
+    return first === undefined ? 'string' : (typeOf(first) as AttributeNodeKind);
+};
+
+// Turns the tree back into JSON, reporting what cannot be written: blank or repeated keys and
+// numbers that do not parse.
+export const fromAttributeNode = (node: AttributeNode, path: (string | number)[] = []): { value: unknown; issues: AttributeIssue[] } => {
+    switch (node.kind) {
+        case 'string': return { value: node.value, issues: [] };
+        case 'boolean': return { value: node.value, issues: [] };
+        case 'null': return { value: null, issues: [] };
+        case 'number': {
+            const n = Number(node.value);
+            return node.value.trim() !== '' && Number.isFinite(n)
+                ? { value: n, issues: [] }
+                : { value: null, issues: [{ path: formatPath(path), message: `"${node.value}" is not a number.` }] };
+        }
+        case 'array': {
+            const children = node.items.map((item, i) => fromAttributeNode(item, [...path, i]));
+            return { value: children.map(c => c.value), issues: children.flatMap(c => c.issues) };
+        }
+        case 'object': {
+            const issues: AttributeIssue[] = [];
+            const value: Record<string, unknown> = {};
+            node.entries.forEach(({ key, node: child }) => {
+                const name = key.trim();
+                if (!name) {
+                    issues.push({ path: formatPath(path), message: 'A key is blank.' });
+                    return;
+                }
+                if (name in value) issues.push({ path: formatPath([...path, name]), message: `The key "${name}" is used twice.` });
+                const converted = fromAttributeNode(child, [...path, name]);
+                value[name] = converted.value;
+                issues.push(...converted.issues);
+            });
+            return { value, issues };
+        }
+    }
+};
+
+export type AttributeOperator = '=' | '!=' | '>' | '<' | '>=' | '<=';
+
+// A table search on attributes: attr.location = "NY", attr.budget >= 5000, attr.address.city != Boston,
+// or just attr.location for clients that have the attribute at all.
+export interface AttributeQuery {
+    path: string[];
+    operator?: AttributeOperator;
+    value?: unknown;
+}
+
+export const parseAttributeQuery = (term: string): AttributeQuery | null => {
+    const match = term.trim().match(/^attr\.([\w$-]+(?:\.[\w$-]+)*)(?:\s*(>=|<=|!=|=|>|<)\s*(.+))?$/i);
+    if (!match) return null;
+    const [, path, operator, raw] = match;
+    if (!operator) return { path: path.split('.') };
+    let value: unknown;
+    try {
+        value = JSON.parse(raw);
+    } catch {
+        // Unquoted words such as NY are read as strings.
+        value = raw.trim();
+    }
+    return { path: path.split('.'), operator: operator as AttributeOperator, value };
+};
+
+const lookup = (value: unknown, path: string[]) =>
+    path.reduce<unknown>((current, key) => (typeof current === 'object' && current !== null ? (current as Record<string, unknown>)[key] : undefined), value);
+
+// Strings compare without case. An array matches when one of its elements does, so
+// attr.tags = "vip" finds every client tagged vip.
+const compare = (actual: unknown, operator: AttributeOperator, expected: unknown): boolean => {
+    if (Array.isArray(actual)) {
+        return operator === '!=' ? !actual.some(item => compare(item, '=', expected)) : actual.some(item => compare(item, operator, expected));
+    }
+    if (operator === '=' || operator === '!=') {
+        const equal = typeof actual === 'number' && typeof expected === 'number'
+            ? actual === expected
+            : String(actual).toLowerCase() === String(expected).toLowerCase();
+        return operator === '=' ? equal : !equal;
+    }
+    if (actual === null || actual === '' || typeof actual === 'boolean') return false;
+    const a = Number(actual);
+    const e = Number(expected);
+    if (isNaN(a) || isNaN(e)) return false;
+    if (operator === '>') return a > e;
+    if (operator === '<') return a < e;
+    if (operator === '>=') return a >= e;
+    return a <= e;
+};
+
+// Clients without the attribute, or with attributes that are not valid JSON, never match.
+export const matchesAttributeQuery = (json: string | undefined, query: AttributeQuery) => {
+    const actual = lookup(parseAttributes(json).value, query.path);
+    if (actual === undefined) return false;
+    return query.operator === undefined || compare(actual, query.operator, query.value);
+};
@@ -0,0 +1,157 @@
+import { EntityType, ColumnMapping, SavedColumnMapping } from '@/types';
+import { generateUniqueId } from '@/lib/utils';
+import { ENTITY_SCHEMAS, normalizeRow } from '@/lib/normalize';
+
+// Target fields per entity, in the order imported rows are built. The ID field comes first.
+export const ENTITY_FIELDS: { [K in EntityType]: string[] } = {
+    clients: Object.keys(ENTITY_SCHEMAS.clients),
+    workers: Object.keys(ENTITY_SCHEMAS.workers),
+    tasks: Object.keys(ENTITY_SCHEMAS.tasks),
+};
+
+export const ID_FIELDS: { [K in EntityType]: string } = { clients: 'ClientID', workers: 'WorkerID', tasks: 'TaskID' };
+
+// Other headers people use for each field, besides the field name itself.
+const FIELD_ALIASES: { [field: string]: string[] } = {
+    ClientID: ['client', 'client code', 'customer id'],
+    ClientName: ['client name', 'customer', 'customer name', 'name'],
+    ClientGroup: ['group', 'segment', 'tier'],
+    PriorityLevel: ['priority', 'importance'],
+    RequestedTaskIDs: ['requested tasks', 'tasks', 'task ids'],
+    AttributesJSON: ['attributes', 'metadata'],
+    WorkerID: ['worker', 'employee id', 'staff id'],
+    WorkerName: ['worker name', 'name', 'employee', 'employee name', 'staff name'],
+    WorkerGroup: ['group', 'team', 'department'],
+    Skills: ['skillset', 'skill set', 'abilities', 'competencies'],
+    AvailableSlots: ['availability', 'slots', 'available phases'],
+    MaxLoadPerPhase: ['max load', 'capacity', 'load limit'],
+    MaxConcurrent: ['concurrency', 'max parallel'],
+    TaskID: ['task', 'job id'],
+    TaskName: ['task name', 'name', 'title', 'job name'],
+    RequiredSkills: ['skills', 'skills needed', 'requirements'],
+    PreferredPhases: ['phases', 'preferred phase', 'phase window'],
+    Duration: ['length', 'hours', 'est hours', 'estimated hours', 'phases needed'],
+    CoRunTaskIDs: ['co run tasks', 'run with'],
+};
+
+// Columns scoring below this are left unmapped rather than guessed.
+export const SUGGESTION_THRESHOLD = 0.6;
+
+// "WorkerID", "worker_id" and "Worker ID" all become "worker id".
+const normalizeHeader = (header: string) =>
+    header
+        .replace(/([a-z])([A-Z])/g, '$1 $2')
+        .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+
+const bigrams = (text: string) => {
+    const compact = text.replace(/ /g, '');
+    return Array.from({ length: Math.max(compact.length - 1, 0) }, (_, i) => compact.slice(i, i + 2));
+};
+
+// Sørensen-Dice similarity of the character bigrams, ignoring spaces.
+const similarity = (a: string, b: string) => {
+    if (a.replace(/ /g, '') === b.replace(/ /g, '')) return 1;
+    const left = bigrams(a);
+    const right = bigrams(b);
+    if (left.length === 0 || right.length === 0) return 0;
+    const remaining = [...right];
+    let shared = 0;
+    left.forEach(gram => {
+        const index = remaining.indexOf(gram);
+        if (index !== -1) {
+            shared++;
+            remaining.splice(index, 1);
+        }
+    });
+    return (2 * shared) / (left.length + right.length);
+};
+
+export const fieldMatchScore = (header: string, field: string) => {
+    const normalized = normalizeHeader(header);
+    return Math.max(...[field, ...(FIELD_ALIASES[field] || [])].map(candidate => similarity(normalized, normalizeHeader(candidate))));
+};
+
+export interface ColumnSuggestion extends ColumnMapping {
+    score: number;
+}
+
+// Pairs columns with fields best match first, so each field is suggested for one column at most.
+export const suggestColumnMapping = (entityType: EntityType, headers: string[]): ColumnSuggestion[] => {
+    const candidates = headers
+        .flatMap(source => ENTITY_FIELDS[entityType].map(target => ({ source, target, score: fieldMatchScore(source, target) })))
+        .filter(c => c.score >= SUGGESTION_THRESHOLD)
+        .sort((a, b) => b.score - a.score);
+    const chosen = new Map<string, ColumnSuggestion>();
+    const usedTargets = new Set<string>();
+    candidates.forEach(c => {
+        if (chosen.has(c.source) || usedTargets.has(c.target)) return;
+        chosen.set(c.source, c);
+        usedTargets.add(c.target);
+    });
+    return headers.map(source => chosen.get(source) ?? { source, target: null, score: 0 });
+};
+
+export interface SheetClassification {
+    entityType: EntityType | null;
+    // Share of each entity's fields the headers cover, weighted by match quality.
+    scores: { [K in EntityType]: number };
+}
+
+// Picks the entity whose fields the headers cover best. A sheet only qualifies for an entity when
+// one of its columns maps to that entity's ID field, which keeps e.g. a tasks sheet with a Skills
+// column from passing as workers.
+export const classifySheet = (headers: string[]): SheetClassification => {
+    const entityTypes = Object.keys(ENTITY_FIELDS) as EntityType[];
+    const scores = Object.fromEntries(entityTypes.map(entityType => {
+        const suggestions = suggestColumnMapping(entityType, headers);
+        if (!suggestions.some(s => s.target === ID_FIELDS[entityType])) return [entityType, 0];
+        return [entityType, suggestions.reduce((sum, s) => sum + s.score, 0) / ENTITY_FIELDS[entityType].length];
+    })) as SheetClassification['scores'];
+    const best = entityTypes.reduce((a, b) => (scores[b] > scores[a] ? b : a));
+    return { entityType: scores[best] > 0 ? best : null, scores };
+};
+
+// Files with the same columns, in any order, share a signature.
+export const mappingSignature = (entityType: EntityType, headers: string[]) =>
+    `${entityType}:${headers.map(normalizeHeader).sort().join('|')}`;
+
+// Saved mappings prefill the mapping dialog as stored, so every column must be a source with a target or null.
+export const isSavedColumnMapping = (value: unknown): value is SavedColumnMapping => {
+    if (typeof value !== 'object' || value === null) return false;
+    const { signature, entityType, columns } = value as Record<string, unknown>;
+    return typeof signature === 'string'
+        && typeof entityType === 'string' && entityType in ENTITY_FIELDS
+        && Array.isArray(columns)
+        && columns.every(column => typeof column === 'object' && column !== null
+            && typeof column.source === 'string' && (column.target === null || typeof column.target === 'string'));
+};
+
+export const columnSamples = (rows: Record<string, unknown>[], source: string, count = 3) =>
+    rows
+        .map(row => row[source])
+        .filter(value => value !== undefined && value !== null && String(value).trim() !== '')
+        .slice(0, count)
+        .map(String);
+
+export const missingRequiredFields = (entityType: EntityType, mapping: ColumnMapping[]) =>
+    [ID_FIELDS[entityType]].filter(field => !mapping.some(m => m.target === field));
+
+// Builds normalized entity rows from the uploaded rows. Columns without a target are dropped, and
+// rows without an ID are skipped. Values that cannot be converted are kept as they are; validateData
+// reports them.
+export const applyColumnMapping = (entityType: EntityType, rows: Record<string, unknown>[], mapping: ColumnMapping[]) => {
+    const byTarget = new Map(mapping.filter(m => m.target).map(m => [m.target!, m.source]));
+    return rows
+        .map(row => {
+            const entity: Record<string, unknown> = { id: generateUniqueId() };
+            ENTITY_FIELDS[entityType].forEach(field => {
+                const source = byTarget.get(field);
+                if (source !== undefined) entity[field] = row[source];
+            });
+            return normalizeRow(entityType, entity).row;
+        })
+        .filter(entity => entity[ID_FIELDS[entityType]]);
+};
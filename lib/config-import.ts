@@ -0,0 +1,66 @@
+import { Rule, Priorities } from '@/types';
+import { CRITERION_KEYS } from '@/lib/criteria';
+
+export interface RuleDiff {
+    added: Rule[];
+    changed: { before: Rule; after: Rule }[];
+    removed: Rule[];
+    // True when the rules both lists share appear in a different order, which changes precedence.
+    reordered: boolean;
+}
+
+export interface WeightChange {
+    key: string;
+    before?: number;
+    after?: number;
+}
+
+export type PrioritiesValidationResult = { ok: true; priorities: Partial<Priorities> } | { ok: false; errors: string[] };
+
+const ruleContent = (rule: Rule) => JSON.stringify({ type: rule.type, params: rule.params, disabled: !!rule.disabled });
+
+// Matches rules by id.
+export const diffRules = (current: Rule[], incoming: Rule[]): RuleDiff => {
+    const currentById = new Map(current.map(r => [r.id, r]));
+    const incomingIds = new Set(incoming.map(r => r.id));
+    const shared = (rules: Rule[]) => rules.filter(r => currentById.has(r.id) && incomingIds.has(r.id)).map(r => r.id);
+    return {
+        added: incoming.filter(r => !currentById.has(r.id)),
+        changed: incoming
+            .filter(r => currentById.has(r.id) && ruleContent(currentById.get(r.id)!) !== ruleContent(r))
+            .map(after => ({ before: currentById.get(after.id)!, after })),
+        removed: current.filter(r => !incomingIds.has(r.id)),
+        reordered: shared(current).join('\n') !== shared(incoming).join('\n'),
+    };
+};
+
+// Keeps the current order and every current rule; rules with a matching id take the incoming
+// version, and new rules are appended in file order.
+export const mergeRules = (current: Rule[], incoming: Rule[]): Rule[] => {
+    const incomingById = new Map(incoming.map(r => [r.id, r]));
+    const currentIds = new Set(current.map(r => r.id));
+    return [...current.map(r => incomingById.get(r.id) ?? r), ...incoming.filter(r => !currentIds.has(r.id))];
+};
+
+export const validatePriorities = (raw: unknown): PrioritiesValidationResult => {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        return { ok: false, errors: ['Priorities must be a JSON object.'] };
+    }
+    const errors: string[] = [];
+    const entries = Object.entries(raw as Record<string, unknown>);
+    entries.forEach(([key, value]) => {
+        if (!(CRITERION_KEYS as string[]).includes(key)) errors.push(`Unknown weight "${key}".`);
+        else if (typeof value !== 'number' || value < 0 || value > 100) errors.push(`${key} must be a number from 0 to 100.`);
+    });
+    if (entries.length === 0) errors.push(`Expected at least one of ${CRITERION_KEYS.join(', ')}.`);
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, priorities: raw as Partial<Priorities> };
+};
+
+export const diffPriorities = (current: Partial<Priorities>, incoming: Partial<Priorities>): WeightChange[] =>
+    Array.from(new Set([...Object.keys(current), ...Object.keys(incoming)]))
+        .map(key => ({
+            key,
+            before: current[key as keyof Priorities],
+            after: incoming[key as keyof Priorities],
+        }))
+        .filter(change => change.before !== change.after);
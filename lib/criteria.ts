@@ -0,0 +1,147 @@
+import { Client, Worker, Task, AllocationPlan, AllocationMetrics, CriterionKey, Priorities } from '@/types';
+import { toList, parsePhases } from '@/lib/values';
+
+export interface CriterionContext {
+    plan: Pick<AllocationPlan, 'assignments' | 'unassigned' | 'workerLoad'>;
+    metrics: AllocationMetrics;
+    clients: Client[];
+    workers: Worker[];
+    tasks: Task[];
+}
+
+export interface Criterion {
+    key: CriterionKey;
+    label: string;
+    description: string;
+    // Returns how well a plan meets the criterion, from 0 (worst) to 1 (best).
+    score: (context: CriterionContext) => number;
+}
+
+// Jain's fairness index: 1 when every value is equal, approaching 1/n as one value dominates.
+const jainIndex = (values: number[]) => {
+    const sumOfSquares = values.reduce((sum, v) => sum + v * v, 0);
+    if (values.length === 0 || sumOfSquares === 0) return 1;
+    const sum = values.reduce((total, v) => total + v, 0);
+    return (sum * sum) / (values.length * sumOfSquares);
+};
+
+// Fulfillment rate per key, for every key with at least one request.
+const fulfillmentBy = (plan: CriterionContext['plan'], keyOf: (clientId: string) => string | undefined) => {
+    const tally = new Map<string, { requested: number; fulfilled: number }>();
+    const count = (clientId: string, fulfilled: boolean) => {
+        const key = keyOf(clientId);
+        if (key === undefined) return;
+        const entry = tally.get(key) || { requested: 0, fulfilled: 0 };
+        entry.requested++;
+        if (fulfilled) entry.fulfilled++;
+        tally.set(key, entry);
+    };
+    plan.assignments.forEach(a => count(a.clientId, true));
+    plan.unassigned.forEach(u => count(u.clientId, false));
+    return Array.from(tally.values()).map(e => e.fulfilled / e.requested);
+};
+
+export const CRITERIA: Criterion[] = [
+    {
+        key: 'fulfill',
+        label: 'Maximize Fulfillment',
+        description: 'Prioritize completing as many tasks as possible.',
+        score: ({ metrics }) => metrics.fulfillmentRate,
+    },
+    {
+        key: 'workload',
+        label: 'Minimize Workload',
+        description: 'Prioritize keeping worker loads low and balanced.',
+        score: ({ plan, metrics }) => {
+            const loads = Object.values(plan.workerLoad).map(byPhase => Object.values(byPhase).reduce((sum, n) => sum + n, 0));
+            const mean = loads.length ? loads.reduce((sum, n) => sum + n, 0) / loads.length : 0;
+            return mean ? 1 / (1 + metrics.loadVariance / (mean * mean)) : 1;
+        },
+    },
+    {
+        key: 'priority',
+        label: 'Client Priority',
+        description: 'Prioritize tasks from high-priority clients.',
+        score: ({ metrics }) => metrics.priorityFulfillment,
+    },
+    {
+        key: 'fairness',
+        label: 'Client Fairness',
+        description: 'Spread fulfillment evenly so no client is left far behind the others.',
+        score: ({ plan }) => jainIndex(fulfillmentBy(plan, clientId => clientId)),
+    },
+    {
+        key: 'skillMatch',
+        label: 'Skill Match Quality',
+        description: 'Give tasks to workers whose skills closely match what the task needs, keeping specialists free.',
+        score: ({ plan, workers, tasks }) => {
+            const workerSkills = new Map(workers.map(w => [w.WorkerID, toList(w.Skills).length]));
+            const taskSkills = new Map(tasks.map(t => [t.TaskID, toList(t.RequiredSkills).length]));
+            const ratios = plan.assignments
+                .filter(a => (taskSkills.get(a.taskId) || 0) > 0 && (workerSkills.get(a.workerId) || 0) > 0)
+                .map(a => Math.min(1, taskSkills.get(a.taskId)! / workerSkills.get(a.workerId)!));
+            return ratios.length ? ratios.reduce((sum, r) => sum + r, 0) / ratios.length : 1;
+        },
+    },
+    {
+        key: 'preferredPhases',
+        label: 'PreferredPhases Adherence',
+        description: 'Schedule tasks that have PreferredPhases inside them, rather than leaving them unassigned.',
+        score: ({ plan, tasks }) => {
+            const preferred = new Map(tasks.map(t => [t.TaskID, parsePhases(t.PreferredPhases)]).filter(([, phases]) => phases.length > 0) as [string, number[]][]);
+            const requested = plan.assignments.filter(a => preferred.has(a.taskId)).length + plan.unassigned.filter(u => preferred.has(u.taskId)).length;
+            const adhered = plan.assignments.filter(a => preferred.has(a.taskId) && a.phases.every(p => preferred.get(a.taskId)!.includes(p))).length;
+            return requested ? adhered / requested : 1;
+        },
+    },
+    {
+        key: 'groupBalance',
+        label: 'ClientGroup Balance',
+        description: 'Keep fulfillment even across client groups. Clients without a ClientGroup are ignored.',
+        score: ({ plan, clients }) => {
+            const groups = new Map(clients.filter(c => c.ClientGroup).map(c => [c.ClientID, String(c.ClientGroup)]));
+            return jainIndex(fulfillmentBy(plan, clientId => groups.get(clientId)));
+        },
+    },
+];
+
+export const CRITERION_KEYS = CRITERIA.map(c => c.key);
+
+// Rounds shares to whole numbers that add up to total, giving the leftover points to the
+// largest fractional parts (largest remainder method).
+const apportion = (shares: [CriterionKey, number][], total: number): Partial<Priorities> => {
+    const floors = shares.map(([key, share]) => ({ key, value: Math.floor(share), remainder: share - Math.floor(share) }));
+    let leftover = total - floors.reduce((sum, f) => sum + f.value, 0);
+    [...floors].sort((a, b) => b.remainder - a.remainder).forEach(f => {
+        if (leftover > 0) {
+            f.value++;
+            leftover--;
+        }
+    });
+    return Object.fromEntries(floors.map(f => [f.key, f.value]));
+};
+
+// Scales weights to whole percentages summing to 100. Missing keys count as 0; all-zero
+// weights are split evenly.
+export const normalizeWeights = (weights: Partial<Priorities>): Priorities => {
+    const raw = CRITERION_KEYS.map(key => [key, Math.max(0, Number(weights[key]) || 0)] as [CriterionKey, number]);
+    const total = raw.reduce((sum, [, w]) => sum + w, 0);
+    const shares = raw.map(([key, w]) => [key, total ? (w / total) * 100 : 100 / raw.length] as [CriterionKey, number]);
+    return apportion(shares, 100) as Priorities;
+};
+
+// Sets one weight and rebalances the unlocked ones so the total stays 100. Locked weights never
+// change, so the moved weight is capped at whatever they leave free; the other unlocked weights
+// keep their proportions to each other.
+export const redistributeWeights = (weights: Partial<Priorities>, key: CriterionKey, value: number, locked: CriterionKey[]): Priorities => {
+    const current = normalizeWeights(weights);
+    const others = CRITERION_KEYS.filter(k => k !== key && !locked.includes(k));
+    if (others.length === 0) return current;
+
+    const lockedTotal = CRITERION_KEYS.filter(k => k !== key && locked.includes(k)).reduce((sum, k) => sum + current[k], 0);
+    const next = Math.min(Math.max(Math.round(value), 0), 100 - lockedTotal);
+    const remaining = 100 - lockedTotal - next;
+    const othersTotal = others.reduce((sum, k) => sum + current[k], 0);
+    const shares = others.map(k => [k, othersTotal ? (current[k] / othersTotal) * remaining : remaining / others.length] as [CriterionKey, number]);
+    return { ...current, [key]: next, ...apportion(shares, remaining) };
+};
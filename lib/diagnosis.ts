@@ -0,0 +1,255 @@
+import { Client, Worker, Task, Conflict, ConflictKind, ReasonRef, Rule } from '@/types';
+import { toList, toNumber, parsePhases } from '@/lib/values';
+import { isTaskGroupRule, phaseWindowPhases, phaseWindowRuns, resolveRules } from '@/lib/rules';
+
+interface Constraint {
+    ref: ReasonRef;
+    type: 'CO_RUN' | 'EXCLUSION' | 'SEQUENTIAL';
+    taskIds: string[];
+}
+
+interface Witness {
+    kind: ConflictKind;
+    message: string;
+    taskIds: string[];
+}
+
+const MAX_CONFLICTS = 20;
+
+// A run can be no longer than the phases listed; checking that first also keeps a huge Duration
+// from being laid out phase by phase.
+const hasRun = (phases: number[], length: number) =>
+    length <= phases.length && phases.some(start => Array.from({ length }, (_, i) => start + i).every(p => phases.includes(p)));
+
+const buildConstraints = (tasks: Task[], rules: Rule[]): Constraint[] => [
+    ...rules
+        .filter(isTaskGroupRule)
+        .filter(r => !r.disabled)
+        .map(r => ({ ref: { kind: 'rule' as const, ruleId: r.id }, type: r.type, taskIds: r.params.taskIds })),
+    ...tasks
+        .filter(t => t.TaskID && toList(t.CoRunTaskIDs).length > 0)
+        .map(t => ({
+            ref: { kind: 'row' as const, entityType: 'tasks' as const, id: t.TaskID, field: 'CoRunTaskIDs' },
+            type: 'CO_RUN' as const,
+            taskIds: [t.TaskID, ...toList(t.CoRunTaskIDs)],
+        })),
+];
+
+const coRunGroups = (constraints: Constraint[]): string[][] => {
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+        if (!parent.has(id)) parent.set(id, id);
+        const p = parent.get(id)!;
+        if (p === id) return id;
+        const root = find(p);
+        parent.set(id, root);
+        return root;
+    };
+    constraints.filter(c => c.type === 'CO_RUN').forEach(c => {
+        c.taskIds.slice(1).forEach(id => parent.set(find(id), find(c.taskIds[0])));
+        find(c.taskIds[0]);
+    });
+    const groups = new Map<string, string[]>();
+    Array.from(parent.keys()).forEach(id => {
+        const root = find(id);
+        groups.set(root, [...(groups.get(root) || []), id]);
+    });
+    return Array.from(groups.values()).filter(g => g.length > 1);
+};
+
+const sequentialEdges = (constraints: Constraint[]): [string, string][] =>
+    constraints
+        .filter(c => c.type === 'SEQUENTIAL')
+        .flatMap(c => c.taskIds.slice(1).map((id, i) => [c.taskIds[i], id] as [string, string]));
+
+const findCycle = (edges: [string, string][]): string[] | null => {
+    const next = new Map<string, string[]>();
+    edges.forEach(([a, b]) => next.set(a, [...(next.get(a) || []), b]));
+    const state = new Map<string, 'visiting' | 'done'>();
+    const path: string[] = [];
+    const visit = (id: string): string[] | null => {
+        if (state.get(id) === 'visiting') return [...path.slice(path.indexOf(id)), id];
+        if (state.get(id) === 'done') return null;
+        state.set(id, 'visiting');
+        path.push(id);
+        for (const n of next.get(id) || []) {
+            const cycle = visit(n);
+            if (cycle) return cycle;
+        }
+        path.pop();
+        state.set(id, 'done');
+        return null;
+    };
+    for (const [a] of edges) {
+        const cycle = visit(a);
+        if (cycle) return cycle;
+    }
+    return null;
+};
+
+// Longest chain by total Duration; only called on acyclic edge sets.
+const longestChain = (edges: [string, string][], duration: (id: string) => number): string[] => {
+    const next = new Map<string, string[]>();
+    edges.forEach(([a, b]) => next.set(a, [...(next.get(a) || []), b]));
+    const memo = new Map<string, string[]>();
+    const from = (id: string): string[] => {
+        if (memo.has(id)) return memo.get(id)!;
+        const tails = (next.get(id) || []).map(from);
+        const best = tails.reduce<string[]>((longest, tail) =>
+            tail.reduce((s, t) => s + duration(t), 0) > longest.reduce((s, t) => s + duration(t), 0) ? tail : longest, []);
+        const chain = [id, ...best];
+        memo.set(id, chain);
+        return chain;
+    };
+    return edges.map(([a]) => from(a)).reduce<string[]>((longest, chain) =>
+        chain.reduce((s, t) => s + duration(t), 0) > longest.reduce((s, t) => s + duration(t), 0) ? chain : longest, []);
+};
+
+// Deletion-based reduction: drops every constraint whose removal keeps the set conflicting,
+// leaving a subset where removing any single member resolves the conflict.
+const minimize = <T>(items: T[], isConflicting: (subset: T[]) => boolean): T[] => {
+    let core = items.slice();
+    for (const item of items) {
+        const without = core.filter(i => i !== item);
+        if (isConflicting(without)) core = without;
+    }
+    return core;
+};
+
+export const diagnose = (clients: Client[], workers: Worker[], tasks: Task[], allRules: Rule[]): Conflict[] => {
+    const rules = resolveRules(allRules).effective;
+    const taskById = new Map(tasks.filter(t => t.TaskID).map(t => [t.TaskID, t]));
+    const duration = (id: string) => Math.max(1, toNumber(taskById.get(id)?.Duration, 1));
+    const phases = Array.from(new Set(workers.flatMap(w => parsePhases(w.AvailableSlots))));
+    const workerProfiles = workers.filter(w => w.WorkerID).map(w => ({
+        id: w.WorkerID,
+        skills: new Set(toList(w.Skills)),
+        capacity: Math.min(toNumber(w.MaxLoadPerPhase, Infinity), toNumber(w.MaxConcurrent, Infinity)),
+    }));
+
+    const findWitness = (constraints: Constraint[]): Witness | null => {
+        const edges = sequentialEdges(constraints);
+        const cycle = findCycle(edges);
+        if (cycle) {
+            return { kind: 'SEQUENTIAL_CYCLE', message: `SEQUENTIAL rules form a cycle: ${cycle.join(' → ')}.`, taskIds: cycle };
+        }
+
+        const groups = coRunGroups(constraints);
+        for (const group of groups) {
+            const excluded = constraints.find(c => c.type === 'EXCLUSION' && c.taskIds.filter(id => group.includes(id)).length > 1);
+            if (excluded) {
+                const pair = excluded.taskIds.filter(id => group.includes(id));
+                return { kind: 'CO_RUN_EXCLUSION', message: `${pair.join(' and ')} must co-run, but an EXCLUSION rule forbids them from overlapping.`, taskIds: pair };
+            }
+            const ordered = edges.find(([a, b]) => group.includes(a) && group.includes(b));
+            if (ordered) {
+                return { kind: 'CO_RUN_SEQUENTIAL', message: `${ordered.join(' and ')} must co-run, but a SEQUENTIAL rule orders them.`, taskIds: ordered };
+            }
+            const skills = Array.from(new Set(group.flatMap(id => toList(taskById.get(id)?.RequiredSkills))));
+            const skilled = workerProfiles.filter(w => skills.every(s => w.skills.has(s)));
+            if (workers.length > 0 && skilled.length === 0) {
+                return { kind: 'CO_RUN_NO_SKILLED_WORKER', message: `No single worker has every skill CO_RUN group ${group.join(', ')} needs: ${skills.join(', ')}.`, taskIds: group };
+            }
+            const capacity = Math.max(0, ...skilled.map(w => w.capacity));
+            if (skilled.length > 0 && group.length > capacity) {
+                return {
+                    kind: 'CO_RUN_OVER_CAPACITY',
+                    message: `CO_RUN group ${group.join(', ')} needs ${group.length} concurrent slots, but the most any skilled worker allows is ${capacity}.`,
+                    taskIds: group,
+                };
+            }
+        }
+
+        if (phases.length > 0) {
+            const chain = longestChain(edges, duration);
+            const needed = chain.reduce((sum, id) => sum + duration(id), 0);
+            if (needed > phases.length) {
+                return {
+                    kind: 'SEQUENTIAL_TOO_LONG',
+                    message: `SEQUENTIAL chain ${chain.join(' → ')} needs ${needed} phases, but only ${phases.length} are available.`,
+                    taskIds: chain,
+                };
+            }
+        }
+        return null;
+    };
+
+    const conflicts: Conflict[] = [];
+    let remaining = buildConstraints(tasks, rules);
+    while (conflicts.length < MAX_CONFLICTS && findWitness(remaining)) {
+        const core = minimize(remaining, subset => findWitness(subset) !== null);
+        const witness = findWitness(core)!;
+        const durationRefs: ReasonRef[] = witness.kind === 'SEQUENTIAL_TOO_LONG'
+            ? witness.taskIds.map(id => ({ kind: 'row', entityType: 'tasks', id, field: 'Duration' }))
+            : [];
+        conflicts.push({ kind: witness.kind, message: witness.message, refs: [...core.map(c => c.ref), ...durationRefs] });
+        remaining = remaining.filter(c => c !== core[0]);
+    }
+
+    taskById.forEach(task => {
+        const preferred = parsePhases(task.PreferredPhases);
+        const needed = duration(task.TaskID);
+        if (preferred.length === 0) return;
+        if (!hasRun(preferred, needed)) {
+            conflicts.push({
+                kind: 'PREFERRED_WINDOW_TOO_SHORT',
+                message: `${task.TaskID} lasts ${needed} phases, but PreferredPhases ${preferred.join(', ')} has no run that long.`,
+                refs: [
+                    { kind: 'row', entityType: 'tasks', id: task.TaskID, field: 'PreferredPhases' },
+                    { kind: 'row', entityType: 'tasks', id: task.TaskID, field: 'Duration' },
+                ],
+            });
+        }
+    });
+
+    rules.forEach(rule => {
+        if (rule.disabled || rule.type !== 'PHASE_WINDOW') return;
+        const task = taskById.get(rule.params.taskId);
+        if (!task) return;
+        const needed = duration(task.TaskID);
+        const preferred = parsePhases(task.PreferredPhases);
+        const windowPhases = phaseWindowPhases(rule);
+        const allowed = preferred.length > 0 ? windowPhases.filter(p => preferred.includes(p)) : windowPhases;
+        if (hasRun(allowed, needed)) return;
+        const refs: ReasonRef[] = [{ kind: 'rule', ruleId: rule.id }, { kind: 'row', entityType: 'tasks', id: task.TaskID, field: 'Duration' }];
+        if (preferred.length > 0) refs.push({ kind: 'row', entityType: 'tasks', id: task.TaskID, field: 'PreferredPhases' });
+        conflicts.push({
+            kind: 'PHASE_WINDOW_CONFLICT',
+            message: preferred.length > 0
+                ? `${task.TaskID} lasts ${needed} phases, but its PHASE_WINDOW (${phaseWindowRuns(rule)}) and PreferredPhases (${preferred.join(', ')}) share no run that long.`
+                : `${task.TaskID} lasts ${needed} phases, but its PHASE_WINDOW (${phaseWindowRuns(rule)}) has no run that long.`,
+            refs,
+        });
+    });
+
+    // SLOT_RESTRICTION: worker groups need enough AvailableSlots in common; client groups need
+    // enough phases in which some worker able to serve each client's requests is available.
+    const servingSlots = (client: Client) => {
+        const requiredSkills = toList(client.RequestedTaskIDs).map(id => toList(taskById.get(id)?.RequiredSkills));
+        return new Set(workers
+            .filter(w => requiredSkills.some(skills => skills.every(s => toList(w.Skills).includes(s))))
+            .flatMap(w => parsePhases(w.AvailableSlots)));
+    };
+    rules.forEach(rule => {
+        if (rule.disabled || rule.type !== 'SLOT_RESTRICTION') return;
+        const { groupType, group, minCommonSlots } = rule.params;
+        const members = groupType === 'worker'
+            ? workers.filter(w => w.WorkerGroup === group).map(w => ({ id: w.WorkerID, slots: new Set(parsePhases(w.AvailableSlots)) }))
+            : clients.filter(c => c.ClientGroup === group).map(c => ({ id: c.ClientID, slots: servingSlots(c) }));
+        if (members.length === 0) return;
+        const common = Array.from(members[0].slots).filter(p => members.every(m => m.slots.has(p))).sort((a, b) => a - b);
+        if (common.length >= minCommonSlots) return;
+        conflicts.push({
+            kind: 'SLOT_RESTRICTION_UNMET',
+            message: `${groupType === 'worker' ? 'WorkerGroup' : 'ClientGroup'} ${group} shares ${common.length} common slot(s)${common.length ? ` (${common.join(', ')})` : ''}, but the rule requires ${minCommonSlots}.`,
+            refs: [
+                { kind: 'rule', ruleId: rule.id },
+                ...members.map(m => groupType === 'worker'
+                    ? { kind: 'row' as const, entityType: 'workers' as const, id: m.id, field: 'AvailableSlots' }
+                    : { kind: 'row' as const, entityType: 'clients' as const, id: m.id, field: 'ClientGroup' }),
+            ],
+        });
+    });
+
+    return conflicts;
+};
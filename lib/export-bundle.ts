@@ -0,0 +1,131 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { Client, Worker, Task, EntityType, Rule, Priorities, ValidationError } from '@/types';
+import { ENTITY_FIELDS } from '@/lib/column-mapping';
+import { CRITERIA, normalizeWeights } from '@/lib/criteria';
+import { resolveRules } from '@/lib/rules';
+
+export interface BundleData {
+    clients: Client[];
+    workers: Worker[];
+    tasks: Task[];
+    rules: Rule[];
+    // Normalized to sum to 100 when written.
+    priorities: Partial<Priorities>;
+}
+
+export type BundleFormat = 'zip' | 'xlsx';
+
+export interface BundleFile {
+    name: string;
+    content: string;
+    rows?: number;
+}
+
+export interface BundleManifest {
+    generatedAt: string;
+    format: BundleFormat;
+    // Hashes are of the CSV and JSON texts, in both formats, so an XLSX bundle can be checked
+    // against a ZIP bundle of the same data.
+    files: { name: string; rows?: number; bytes: number; sha256: string }[];
+    validation: {
+        errorCount: number;
+        byEntity: { [K in EntityType]: number };
+        byField: Record<string, number>;
+    };
+}
+
+const ENTITY_TYPES: EntityType[] = ['clients', 'workers', 'tasks'];
+
+// Known fields in their usual order, then any others the rows carry. The document id is left out.
+const columnsOf = (entityType: EntityType, rows: any[]) => {
+    const extra = new Set(rows.flatMap(row => Object.keys(row)));
+    ENTITY_FIELDS[entityType].forEach(field => extra.delete(field));
+    extra.delete('id');
+    return [...ENTITY_FIELDS[entityType], ...Array.from(extra).sort()];
+};
+
+// Lists become comma-separated cells, as the CSV import expects them.
+const flattenRow = (row: any, columns: string[]) =>
+    Object.fromEntries(columns.map(column => {
+        const value = row[column];
+        return [column, Array.isArray(value) ? value.join(',') : value ?? ''];
+    }));
+
+const tableOf = (entityType: EntityType, rows: any[]) => {
+    const columns = columnsOf(entityType, rows);
+    return { columns, rows: rows.map(row => flattenRow(row, columns)) };
+};
+
+export const bundleFiles = (data: BundleData): BundleFile[] => [
+    ...ENTITY_TYPES.map(entityType => {
+        const { columns, rows } = tableOf(entityType, data[entityType]);
+        return { name: `${entityType}.csv`, content: Papa.unparse({ fields: columns, data: rows.map(row => columns.map(c => row[c])) }), rows: rows.length };
+    }),
+    { name: 'rules.json', content: JSON.stringify({ rules: data.rules, resolution: resolveRules(data.rules).resolution }, null, 2), rows: data.rules.length },
+    { name: 'priorities.json', content: JSON.stringify(normalizeWeights(data.priorities), null, 2) },
+];
+
+const sha256 = async (bytes: Uint8Array) => {
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// `errors` are the validation results for `data`. Callers pass them in so validation can run off
+// the main thread.
+export const buildManifest = async (files: BundleFile[], format: BundleFormat, errors: ValidationError[]): Promise<BundleManifest> => {
+    const encoder = new TextEncoder();
+    return {
+        generatedAt: new Date().toISOString(),
+        format,
+        files: await Promise.all(files.map(async file => {
+            const bytes = encoder.encode(file.content);
+            return { name: file.name, ...(file.rows !== undefined ? { rows: file.rows } : {}), bytes: bytes.length, sha256: await sha256(bytes) };
+        })),
+        validation: {
+            errorCount: errors.length,
+            byEntity: Object.fromEntries(ENTITY_TYPES.map(t => [t, errors.filter(e => e.entityType === t).length])) as BundleManifest['validation']['byEntity'],
+            byField: errors.reduce<Record<string, number>>((counts, e) => ({ ...counts, [e.field]: (counts[e.field] ?? 0) + 1 }), {}),
+        },
+    };
+};
+
+export const buildZipBundle = async (data: BundleData, errors: ValidationError[]): Promise<Uint8Array> => {
+    const files = bundleFiles(data);
+    const manifest = await buildManifest(files, 'zip', errors);
+    const encoder = new TextEncoder();
+    // xlsx ships its own ZIP writer as XLSX.CFB, so no separate archive library is needed.
+    const zip = XLSX.CFB.utils.cfb_new();
+    [...files, { name: 'manifest.json', content: JSON.stringify(manifest, null, 2) }].forEach(file => {
+        XLSX.CFB.utils.cfb_add(zip, file.name, encoder.encode(file.content));
+    });
+    return new Uint8Array(XLSX.CFB.write(zip, { fileType: 'zip', type: 'array' }));
+};
+
+export const buildWorkbookBundle = async (data: BundleData, errors: ValidationError[]): Promise<Uint8Array> => {
+    const files = bundleFiles(data);
+    const manifest = await buildManifest(files, 'xlsx', errors);
+    const weights = normalizeWeights(data.priorities);
+    const { resolution } = resolveRules(data.rules);
+    const workbook = XLSX.utils.book_new();
+    ENTITY_TYPES.forEach(entityType => {
+        const { columns, rows } = tableOf(entityType, data[entityType]);
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows, { header: columns }), entityType.charAt(0).toUpperCase() + entityType.slice(1));
+    });
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(
+        data.rules.map((rule, index) => ({ Rank: index + 1, Type: rule.type, Status: resolution[index]?.status ?? '', Reason: resolution[index]?.reason ?? '', Rule: JSON.stringify(rule) })),
+        { header: ['Rank', 'Type', 'Status', 'Reason', 'Rule'] }
+    ), 'Rules');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(
+        CRITERIA.map(c => ({ Criterion: c.label, Key: c.key, Weight: weights[c.key] }))
+    ), 'Priorities');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+        ['Generated at', manifest.generatedAt],
+        ['Validation errors', manifest.validation.errorCount],
+        ...ENTITY_TYPES.map(t => [`Validation errors in ${t}`, manifest.validation.byEntity[t]]),
+        [],
+        ['File', 'Rows', 'Bytes', 'SHA-256'],
+        ...manifest.files.map(f => [f.name, f.rows ?? '', f.bytes, f.sha256]),
+    ]), 'Manifest');
+    return new Uint8Array(XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }));
+};
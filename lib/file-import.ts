@@ -0,0 +1,241 @@
+import * as XLSX from 'xlsx';
+import Papa from 'papaparse';
+
+export interface ParsedSheet {
+    name: string;
+    headers: string[];
+    rows: Record<string, unknown>[];
+}
+
+export type TextFormat = 'delimited' | 'json' | 'ndjson';
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+// How a text upload is read. Detected from the file, and shown so the user can correct it.
+export interface TextParseSettings {
+    format: TextFormat;
+    encoding: TextEncoding;
+    // Only used for delimited text.
+    delimiter: string;
+    // Zero-based line of the header row; lines above it (titles, export notes) are skipped.
+    headerRow: number;
+}
+
+export const TEXT_FORMATS: { [F in TextFormat]: string } = { delimited: 'Delimited text', json: 'JSON array', ndjson: 'JSON lines' };
+export const TEXT_ENCODINGS: { [E in TextEncoding]: string } = {
+    'utf-8': 'UTF-8',
+    'utf-16le': 'UTF-16 LE',
+    'utf-16be': 'UTF-16 BE',
+    'windows-1252': 'Windows-1252 (Western European)',
+};
+export const DELIMITERS: { value: string; label: string }[] = [
+    { value: ',', label: 'Comma (,)' },
+    { value: ';', label: 'Semicolon (;)' },
+    { value: '\t', label: 'Tab' },
+    { value: '|', label: 'Pipe (|)' },
+];
+
+// Extensions the entity dropzones accept, with the MIME types browsers report for them.
+export const TEXT_FILE_TYPES: Record<string, string[]> = {
+    'text/csv': ['.csv'],
+    'text/tab-separated-values': ['.tsv'],
+    'text/plain': ['.txt'],
+    'application/json': ['.json'],
+    'application/x-ndjson': ['.ndjson', '.jsonl'],
+};
+
+// Workbook extensions, accepted by the workbook dropzone and the entity dropzones alike.
+export const SPREADSHEET_FILE_TYPES: Record<string, string[]> = {
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+    'application/vnd.ms-excel': ['.xls'],
+};
+
+// Lines looked at when guessing the delimiter and header row.
+const SAMPLE_LINES = 20;
+
+const extensionOf = (fileName: string) => fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] ?? '';
+
+export const isSpreadsheetFile = (fileName: string) =>
+    Object.values(SPREADSHEET_FILE_TYPES).flat().includes(`.${extensionOf(fileName)}`);
+
+// A byte order mark decides the encoding. Without one, text that decodes as strict UTF-8 is UTF-8;
+// many zero bytes mean UTF-16; anything else is taken as the Windows code page Excel uses.
+export const detectEncoding = (bytes: Uint8Array): TextEncoding => {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+    const sample = bytes.subarray(0, 4096);
+    const zeros = (offset: number) => sample.filter((b, i) => i % 2 === offset && b === 0).length;
+    if (zeros(1) > sample.length / 4) return 'utf-16le';
+    if (zeros(0) > sample.length / 4) return 'utf-16be';
+    try {
+        // stream: a multi-byte character cut off at the end of a sample is not an error.
+        new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+        return 'utf-8';
+    } catch {
+        return 'windows-1252';
+    }
+};
+
+// TextDecoder drops a matching byte order mark.
+export const decodeText = (bytes: Uint8Array, encoding: TextEncoding) => new TextDecoder(encoding).decode(bytes);
+
+const sampleLines = (text: string) => text.split(/\r\n|\n|\r/).filter(line => line.trim() !== '').slice(0, SAMPLE_LINES);
+
+const splitLine = (line: string, delimiter: string) => Papa.parse<string[]>(line, { delimiter }).data[0] ?? [];
+
+const mostCommon = (values: number[]) => {
+    const counts = new Map<number, number>();
+    values.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0] ?? [0, 0];
+};
+
+// The delimiter that splits the most lines into the same number of fields, more than one.
+export const detectDelimiter = (text: string): string => {
+    const lines = sampleLines(text);
+    const scored = DELIMITERS.map(({ value }) => {
+        const [fields, lineCount] = mostCommon(lines.map(line => splitLine(line, value).length));
+        return { value, score: fields > 1 ? lineCount * 100 + fields : 0 };
+    });
+    const best = scored.reduce((a, b) => (b.score > a.score ? b : a));
+    return best.score > 0 ? best.value : ',';
+};
+
+// The first line with the usual field count and mostly non-empty, non-numeric cells, so a title
+// line or a blank preamble above the table is skipped.
+export const detectHeaderRow = (text: string, delimiter: string): number => {
+    const lines = text.split(/\r\n|\n|\r/).slice(0, SAMPLE_LINES);
+    const cells = lines.map(line => splitLine(line, delimiter));
+    const [usual] = mostCommon(cells.filter(c => c.some(v => v.trim() !== '')).map(c => c.length));
+    const index = cells.findIndex(c => {
+        const filled = c.filter(v => v.trim() !== '');
+        return c.length >= usual && filled.length >= c.length / 2 && filled.every(v => isNaN(Number(v)));
+    });
+    return Math.max(index, 0);
+};
+
+const parsesAsJson = (text: string) => {
+    try {
+        return { value: JSON.parse(text) as unknown };
+    } catch {
+        return null;
+    }
+};
+
+// The content decides, whatever the extension says. Text that parses as a whole is JSON, unless it
+// is a single line holding one record, which is a one-record NDJSON file. Otherwise it is NDJSON
+// when every non-blank line parses on its own. `truncated` means `text` is only the start of
+// the file, so its last line may be cut off and a JSON array cannot parse as a whole.
+const detectFormat = (fileName: string, text: string, truncated: boolean): TextFormat => {
+    const extension = extensionOf(fileName);
+    const start = text.trimStart();
+    const looksJson = start.startsWith('[') || start.startsWith('{');
+    if (!looksJson && !['json', 'ndjson', 'jsonl'].includes(extension)) return 'delimited';
+    const lines = text.split(/\r\n|\n|\r/).filter(line => line.trim() !== '');
+    const whole = truncated ? null : parsesAsJson(text);
+    if (whole) {
+        const { value } = whole;
+        const isRecord = typeof value === 'object' && value !== null && !Array.isArray(value);
+        return isRecord && lines.length === 1 && !Object.values(value).some(Array.isArray) ? 'ndjson' : 'json';
+    }
+    const complete = truncated ? lines.slice(0, -1) : lines;
+    if (complete.length > 0 && complete.every(line => parsesAsJson(line) !== null)) return 'ndjson';
+    return extension === 'ndjson' || extension === 'jsonl' ? 'ndjson' : 'json';
+};
+
+// `bytes` may be only the start of the file; pass `truncated` then.
+export const detectTextSettings = (fileName: string, bytes: Uint8Array, truncated = false): TextParseSettings => {
+    const encoding = detectEncoding(bytes);
+    const text = decodeText(bytes, encoding);
+    const format = detectFormat(fileName, text, truncated);
+    if (format !== 'delimited') return { format, encoding, delimiter: ',', headerRow: 0 };
+    const delimiter = extensionOf(fileName) === 'tsv' ? '\t' : detectDelimiter(text);
+    return { format, encoding, delimiter, headerRow: detectHeaderRow(text, delimiter) };
+};
+
+// Nested objects are kept as JSON text, which is how AttributesJSON is stored.
+export const flattenRecord = (record: unknown, where: string): Record<string, unknown> => {
+    if (typeof record !== 'object' || record === null || Array.isArray(record)) throw new Error(`${where} is not an object.`);
+    return Object.fromEntries(Object.entries(record).map(([key, value]) => [
+        key,
+        typeof value === 'object' && value !== null && !Array.isArray(value) ? JSON.stringify(value) : value,
+    ]));
+};
+
+const sheetFromRecords = (name: string, records: Record<string, unknown>[]): ParsedSheet => ({
+    name,
+    headers: Array.from(new Set(records.flatMap(record => Object.keys(record)))),
+    rows: records,
+});
+
+// Accepts an array of records, or an object holding one, such as { "clients": [...] }.
+const parseJson = (text: string, name: string): ParsedSheet => {
+    const data = JSON.parse(text);
+    const records = Array.isArray(data) ? data : Object.values(data ?? {}).find(Array.isArray);
+    if (!records) throw new Error('The JSON file does not contain an array of records.');
+    return sheetFromRecords(name, records.map((record: unknown, i: number) => flattenRecord(record, `Record ${i + 1}`)));
+};
+
+const parseNdjson = (text: string, name: string): ParsedSheet => {
+    const records = text.split(/\r\n|\n|\r/).flatMap((line, i) => {
+        if (line.trim() === '') return [];
+        try {
+            return [flattenRecord(JSON.parse(line), `Line ${i + 1}`)];
+        } catch (error: any) {
+            throw new Error(`Line ${i + 1}: ${error.message}`);
+        }
+    });
+    return sheetFromRecords(name, records);
+};
+
+// Blank or repeated header cells get positional names, so no column is lost or overwritten.
+export const uniqueHeaders = (cells: string[]) => {
+    const seen = new Set<string>();
+    return cells.map((cell, i) => {
+        const header = cell.trim() && !seen.has(cell.trim()) ? cell.trim() : `Column ${i + 1}`;
+        seen.add(header);
+        return header;
+    });
+};
+
+// Papa skips blank lines, so the header line number is turned into a count of non-empty lines.
+export const nonEmptyLinesBefore = (text: string, headerRow: number) =>
+    text.split(/\r\n|\n|\r/).slice(0, headerRow).filter(line => line.trim() !== '').length;
+
+export const recordFromCells = (headers: string[], cells: string[]) =>
+    Object.fromEntries(headers.map((header, i) => [header, cells[i] ?? '']));
+
+const parseDelimited = (text: string, name: string, delimiter: string, headerRow: number): ParsedSheet => {
+    const lines = Papa.parse<string[]>(text, { delimiter, skipEmptyLines: 'greedy' }).data;
+    const [headerCells = [], ...dataLines] = lines.slice(nonEmptyLinesBefore(text, headerRow));
+    const headers = uniqueHeaders(headerCells);
+    return { name, headers, rows: dataLines.map(cells => recordFromCells(headers, cells)) };
+};
+
+// Detection and the settings preview only read the start of the file, so large files are not
+// decoded on the main thread.
+export const HEAD_BYTES = 65536;
+
+export const previewLines = (bytes: Uint8Array, encoding: TextEncoding, count = 8) =>
+    decodeText(bytes.subarray(0, 16384), encoding).split(/\r\n|\n|\r/).slice(0, count);
+
+export const parseText = (bytes: Uint8Array, settings: TextParseSettings, name: string): ParsedSheet => {
+    const text = decodeText(bytes, settings.encoding);
+    if (settings.format === 'json') return parseJson(text, name);
+    if (settings.format === 'ndjson') return parseNdjson(text, name);
+    return parseDelimited(text, name, settings.delimiter, settings.headerRow);
+};
+
+// Every sheet with a header row, in workbook order. Headers come from the first row, so columns
+// that are empty in every data row are still listed.
+export const parseWorkbook = (data: string | ArrayBuffer): ParsedSheet[] => {
+    const workbook = XLSX.read(data, { type: typeof data === 'string' ? 'binary' : 'array' });
+    return workbook.SheetNames.flatMap(name => {
+        const [headerRow = [], ...dataRows] = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, blankrows: false });
+        // Rows are sparse where cells are empty, so they are read by index rather than mapped.
+        const headerCells = Array.from(headerRow, cell => String(cell ?? ''));
+        if (!headerCells.some(cell => cell.trim())) return [];
+        // Rows are keyed by the listed headers themselves, named the same way as for text files.
+        const headers = uniqueHeaders(headerCells);
+        return [{ name, headers, rows: dataRows.map(cells => Object.fromEntries(headers.map((header, i) => [header, cells[i] ?? '']))) }];
+    });
+};
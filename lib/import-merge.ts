@@ -0,0 +1,131 @@
+import { EntityType, ImportMode } from '@/types';
+import { ID_FIELDS } from '@/lib/column-mapping';
+import { isEmpty, normalizeRow } from '@/lib/normalize';
+
+export const IMPORT_MODES: { [M in ImportMode]: { label: string; description: string } } = {
+    replace: { label: 'Replace all', description: 'The file becomes the whole data set; rows missing from it are removed.' },
+    append: { label: 'Append', description: 'Every row in the file is added; existing rows are kept.' },
+    upsert: { label: 'Update or add by ID', description: 'Rows with a known ID are updated field by field; new IDs are added; nothing is removed.' },
+};
+
+export type RowChangeKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface FieldChange {
+    field: string;
+    before: unknown;
+    after: unknown;
+}
+
+// One row of the resulting data set. `before` is the loaded row and `after` the row the import
+// would write; either is null when the row is added or removed.
+export interface RowChange {
+    id: string;
+    key: string;
+    kind: RowChangeKind;
+    before: any | null;
+    after: any | null;
+    fields: FieldChange[];
+}
+
+export interface ImportPlan {
+    entityType: EntityType;
+    changes: RowChange[];
+}
+
+// The document writes a plan needs: rows to set, and ids of rows to delete. Unchanged rows are left out.
+export interface ImportWrites {
+    set: any[];
+    remove: string[];
+}
+
+export interface ImportSummary {
+    added: number;
+    updated: number;
+    unchanged: number;
+    removed: number;
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const fieldChanges = (before: any, after: any): FieldChange[] =>
+    Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+        .filter(field => field !== 'id' && !sameValue(before[field], after[field]))
+        .map(field => ({ field, before: before[field], after: after[field] }));
+
+const rowChange = (key: string, before: any | null, after: any | null): RowChange => {
+    if (!before) return { id: after.id, key, kind: 'added', before, after, fields: [] };
+    if (!after) return { id: before.id, key, kind: 'removed', before, after, fields: [] };
+    const fields = fieldChanges(before, after);
+    return { id: before.id, key, kind: fields.length > 0 ? 'changed' : 'unchanged', before, after, fields };
+};
+
+// Lists every row of the data set the import would produce, in order. Rows matched by business ID
+// keep their existing document id, so re-importing the same file rewrites documents in place
+// instead of recreating them.
+// An upsert only takes the cells the file fills in, so a blank cell of any kind, list fields
+// included, leaves the loaded value as it is.
+const mergeRow = (entityType: EntityType, match: any, row: any) => {
+    const filled = Object.fromEntries(Object.entries(row).filter(([, value]) => !isEmpty(value)));
+    return normalizeRow(entityType, { ...match, ...filled, id: match.id }).row;
+};
+
+export const planImport = (entityType: EntityType, mode: ImportMode, existing: any[], incoming: any[]): RowChange[] => {
+    const idField = ID_FIELDS[entityType];
+    const keyOf = (row: any) => String(row[idField]);
+    const kept = existing.map(row => rowChange(keyOf(row), row, row));
+    if (mode === 'append') {
+        return [...kept, ...incoming.map(row => rowChange(keyOf(row), null, row))];
+    }
+
+    const existingById = new Map(existing.filter(row => row[idField]).map(row => [keyOf(row), row]));
+    const matched = new Map<string, RowChange>();
+    const added: RowChange[] = [];
+    const ordered: RowChange[] = [];
+    incoming.forEach(row => {
+        const match = existingById.get(keyOf(row));
+        if (!match || matched.has(match.id)) {
+            const change = rowChange(keyOf(row), null, row);
+            added.push(change);
+            ordered.push(change);
+            return;
+        }
+        const change = rowChange(keyOf(row), match, mode === 'upsert' ? mergeRow(entityType, match, row) : { ...row, id: match.id });
+        matched.set(match.id, change);
+        ordered.push(change);
+    });
+
+    if (mode === 'upsert') {
+        return [...kept.map(change => matched.get(change.id) ?? change), ...added];
+    }
+    return [...ordered, ...existing.filter(row => !matched.has(row.id)).map(row => rowChange(keyOf(row), row, null))];
+};
+
+// Builds the data set from a plan. A skipped row stays as it is loaded now: not added, not
+// changed, or not removed.
+export const applyImportPlan = (changes: RowChange[], skipped: Set<string> = new Set()) =>
+    changes.map(change => (skipped.has(change.id) ? change.before : change.after)).filter(Boolean);
+
+export const importWrites = (changes: RowChange[], skipped: Set<string> = new Set()): ImportWrites => {
+    const applied = changes.filter(change => !skipped.has(change.id));
+    return {
+        set: applied.filter(c => c.kind === 'added' || c.kind === 'changed').map(c => c.after),
+        remove: applied.filter(c => c.kind === 'removed').map(c => c.id),
+    };
+};
+
+export const summarizeImportPlan = (changes: RowChange[], skipped: Set<string> = new Set()): ImportSummary => {
+    const count = (kind: RowChangeKind) => changes.filter(c => c.kind === kind && !skipped.has(c.id)).length;
+    // Skipped changes and removals leave the loaded row in place; skipped additions leave nothing.
+    const kept = changes.filter(c => skipped.has(c.id) && c.kind !== 'added').length;
+    return { added: count('added'), updated: count('changed'), unchanged: count('unchanged') + kept, removed: count('removed') };
+};
+
+export const describeImport = (entityType: EntityType, summary: ImportSummary) => {
+    const parts = [
+        summary.added && `${summary.added} added`,
+        summary.updated && `${summary.updated} updated`,
+        summary.unchanged && `${summary.unchanged} unchanged`,
+        summary.removed && `${summary.removed} removed`,
+    ].filter(Boolean);
+    return `${entityType}: ${parts.join(', ') || 'no rows'}`;
+};
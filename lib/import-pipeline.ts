@@ -0,0 +1,39 @@
+import { Client, Worker, Task, ColumnMapping, EntityType, ImportMode, ValidationError, AttributeSchema } from '@/types';
+import { TextParseSettings } from '@/lib/file-import';
+import { ImportPlan } from '@/lib/import-merge';
+
+// Messages between the data tab and lib/import.worker.ts. Every request carries a job id that
+// the worker repeats on each message it sends back for that request.
+
+export interface PlanRequest {
+    entityType: EntityType;
+    mode: ImportMode;
+    existing: any[];
+    rows: Record<string, unknown>[];
+    mapping: ColumnMapping[];
+}
+
+export type PipelineRequest =
+    // Text files are read as a stream when delimited; JSON is parsed in one go.
+    | { kind: 'parse-text'; jobId: number; file: File; settings: TextParseSettings }
+    | { kind: 'parse-workbook'; jobId: number; file: File }
+    | { kind: 'plan'; jobId: number; requests: PlanRequest[] }
+    | { kind: 'validate'; jobId: number; clients: Client[]; workers: Worker[]; tasks: Task[]; attributeSchema: AttributeSchema | null };
+
+export type PipelineMessage =
+    | { kind: 'progress'; jobId: number; stage: string; done: number; total: number }
+    // Parse jobs announce each sheet, then send its rows in chunks of ROW_CHUNK_SIZE.
+    | { kind: 'sheet'; jobId: number; index: number; name: string; headers: string[] }
+    | { kind: 'rows'; jobId: number; index: number; rows: Record<string, unknown>[] }
+    | { kind: 'plan'; jobId: number; plans: ImportPlan[] }
+    | { kind: 'validation'; jobId: number; errors: ValidationError[] }
+    | { kind: 'done'; jobId: number }
+    | { kind: 'error'; jobId: number; message: string };
+
+export const ROW_CHUNK_SIZE = 5000;
+
+export class PipelineCancelledError extends Error {
+    constructor() {
+        super('Cancelled.');
+    }
+}
@@ -0,0 +1,112 @@
+import Papa from 'papaparse';
+import { ParsedSheet, HEAD_BYTES, decodeText, nonEmptyLinesBefore, parseText, parseWorkbook, recordFromCells, uniqueHeaders } from '@/lib/file-import';
+import { applyColumnMapping } from '@/lib/column-mapping';
+import { planImport } from '@/lib/import-merge';
+import { validateData } from '@/lib/validation';
+import { PipelineMessage, PipelineRequest, ROW_CHUNK_SIZE } from '@/lib/import-pipeline';
+
+// Runs parsing, mapping, diffing and validation off the main thread. The data tab cancels a run by
+// terminating the worker, so nothing here needs to watch for cancellation.
+
+// The DOM typings describe `self` as a window, whose postMessage needs a target origin.
+const post = (message: PipelineMessage) => (self as unknown as { postMessage: (message: PipelineMessage) => void }).postMessage(message);
+
+const postSheet = (jobId: number, index: number, sheet: ParsedSheet) => {
+    post({ kind: 'sheet', jobId, index, name: sheet.name, headers: sheet.headers });
+    for (let start = 0; start < sheet.rows.length; start += ROW_CHUNK_SIZE) {
+        post({ kind: 'rows', jobId, index, rows: sheet.rows.slice(start, start + ROW_CHUNK_SIZE) });
+        post({ kind: 'progress', jobId, stage: `Loading ${sheet.name}`, done: Math.min(start + ROW_CHUNK_SIZE, sheet.rows.length), total: sheet.rows.length });
+    }
+};
+
+const READ_CHUNK_BYTES = 1024 * 1024;
+
+// Splits text into the part up to the last line break outside quotes, and the rest, which may be
+// an unfinished row. Doubled quotes inside a field toggle twice, so they cancel out.
+const splitAtLastRow = (text: string): [string, string] => {
+    let inQuotes = false;
+    let end = -1;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (c === '"') inQuotes = !inQuotes;
+        else if (!inQuotes && (c === '\n' || c === '\r')) end = i;
+    }
+    return [text.slice(0, end + 1), text.slice(end + 1)];
+};
+
+// Delimited text is streamed: rows go back in chunks as the file is read, so memory holds one
+// chunk of text at a time and the progress bar follows the bytes read. The file is read as bytes
+// and decoded by one streaming TextDecoder, so a character split across two chunks is decoded
+// whole, and only complete rows are handed to Papa.
+const streamDelimited = async (jobId: number, request: Extract<PipelineRequest, { kind: 'parse-text' }>) => {
+    const { file, settings } = request;
+    const head = decodeText(new Uint8Array(await file.slice(0, HEAD_BYTES).arrayBuffer()), settings.encoding);
+    let skip = nonEmptyLinesBefore(head, settings.headerRow);
+    let headers: string[] | null = null;
+
+    const parseRows = (text: string) => {
+        let lines = Papa.parse<string[]>(text, { delimiter: settings.delimiter, skipEmptyLines: 'greedy' }).data;
+        if (skip > 0) {
+            const skipped = Math.min(skip, lines.length);
+            lines = lines.slice(skipped);
+            skip -= skipped;
+        }
+        if (!headers && lines.length > 0) {
+            headers = uniqueHeaders(lines[0]);
+            lines = lines.slice(1);
+            post({ kind: 'sheet', jobId, index: 0, name: file.name, headers });
+        }
+        for (let start = 0; headers && start < lines.length; start += ROW_CHUNK_SIZE) {
+            post({ kind: 'rows', jobId, index: 0, rows: lines.slice(start, start + ROW_CHUNK_SIZE).map(cells => recordFromCells(headers!, cells)) });
+        }
+    };
+
+    const decoder = new TextDecoder(settings.encoding);
+    let pending = '';
+    for (let offset = 0; offset < file.size; offset += READ_CHUNK_BYTES) {
+        const bytes = new Uint8Array(await file.slice(offset, offset + READ_CHUNK_BYTES).arrayBuffer());
+        const [rows, rest] = splitAtLastRow(pending + decoder.decode(bytes, { stream: true }));
+        pending = rest;
+        parseRows(rows);
+        post({ kind: 'progress', jobId, stage: 'Reading file', done: Math.min(offset + READ_CHUNK_BYTES, file.size), total: file.size });
+    }
+    parseRows(pending + decoder.decode());
+    if (!headers) post({ kind: 'sheet', jobId, index: 0, name: file.name, headers: [] });
+};
+
+const handle = async (request: PipelineRequest) => {
+    const { jobId } = request;
+    switch (request.kind) {
+        case 'parse-text': {
+            if (request.settings.format === 'delimited') {
+                await streamDelimited(jobId, request);
+            } else {
+                post({ kind: 'progress', jobId, stage: 'Reading file', done: 0, total: request.file.size });
+                postSheet(jobId, 0, parseText(new Uint8Array(await request.file.arrayBuffer()), request.settings, request.file.name));
+            }
+            break;
+        }
+        case 'parse-workbook': {
+            post({ kind: 'progress', jobId, stage: 'Reading workbook', done: 0, total: request.file.size });
+            parseWorkbook(await request.file.arrayBuffer()).forEach((sheet, index) => postSheet(jobId, index, sheet));
+            break;
+        }
+        case 'plan': {
+            const plans = request.requests.map(({ entityType, mode, existing, rows, mapping }, i) => {
+                post({ kind: 'progress', jobId, stage: `Comparing ${entityType}`, done: i, total: request.requests.length });
+                return { entityType, changes: planImport(entityType, mode, existing, applyColumnMapping(entityType, rows, mapping)) };
+            });
+            post({ kind: 'plan', jobId, plans });
+            break;
+        }
+        case 'validate': {
+            post({ kind: 'validation', jobId, errors: validateData(request.clients, request.workers, request.tasks, request.attributeSchema) });
+            break;
+        }
+    }
+    post({ kind: 'done', jobId });
+};
+
+self.addEventListener('message', (event: MessageEvent<PipelineRequest>) => {
+    handle(event.data).catch((error: any) => post({ kind: 'error', jobId: event.data.jobId, message: error?.message ?? String(error) }));
+});
@@ -0,0 +1,98 @@
+import { EntityType, ValidationError } from '@/types';
+import { toList, parsePhases, MAX_PHASE } from '@/lib/values';
+
+// How each field is stored. Uploads, table edits and commands all arrive as loose strings or
+// numbers; normalizeRow turns them into these types before anything is written.
+export type FieldKind = 'string' | 'integer' | 'list' | 'phases' | 'json';
+
+// Fields per entity, in column order. The ID field comes first.
+export const ENTITY_SCHEMAS: { [K in EntityType]: Record<string, FieldKind> } = {
+    clients: {
+        ClientID: 'string',
+        ClientName: 'string',
+        ClientGroup: 'string',
+        PriorityLevel: 'integer',
+        RequestedTaskIDs: 'list',
+        AttributesJSON: 'json',
+    },
+    workers: {
+        WorkerID: 'string',
+        WorkerName: 'string',
+        WorkerGroup: 'string',
+        Skills: 'list',
+        AvailableSlots: 'phases',
+        MaxLoadPerPhase: 'integer',
+        MaxConcurrent: 'integer',
+    },
+    tasks: {
+        TaskID: 'string',
+        TaskName: 'string',
+        RequiredSkills: 'list',
+        PreferredPhases: 'phases',
+        Duration: 'integer',
+        CoRunTaskIDs: 'list',
+    },
+};
+
+export interface NormalizedField {
+    // undefined means the field is empty and is left off the row.
+    value: unknown;
+    error?: string;
+    suggestion?: string;
+}
+
+export const isEmpty = (value: unknown) =>
+    value === undefined || value === null || (typeof value === 'string' && value.trim() === '') || (Array.isArray(value) && value.length === 0);
+
+// A value that cannot be converted is kept as entered, so it stays visible and fixable, and the
+// error says why.
+export const normalizeField = (entityType: EntityType, field: string, value: unknown): NormalizedField => {
+    const kind = ENTITY_SCHEMAS[entityType][field];
+    if (isEmpty(value)) return { value: kind === 'list' || kind === 'phases' ? [] : undefined };
+    switch (kind) {
+        case 'integer': {
+            const n = typeof value === 'number' ? value : Number(String(value).trim());
+            return Number.isInteger(n) ? { value: n } : { value: String(value).trim(), error: `Must be a whole number, got "${value}".` };
+        }
+        case 'list':
+            return { value: toList(value) };
+        case 'phases': {
+            // Ranges such as "2-4" are expanded, so every phase list is stored as sorted numbers.
+            const entries = toList(value);
+            const tooHigh = entries.filter(entry => (entry.match(/\d+/g) || []).some(n => Number(n) > MAX_PHASE));
+            if (tooHigh.length > 0) {
+                return { value: entries, error: `Phases cannot go above ${MAX_PHASE}, got ${tooHigh.map(e => `"${e}"`).join(', ')}.` };
+            }
+            const invalid = entries.filter(entry => !/^\d+$/.test(entry) && parsePhases(entry).length === 0);
+            if (invalid.length > 0) {
+                return {
+                    value: entries,
+                    error: `Phases must be numbers or ranges such as 2-4, got ${invalid.map(e => `"${e}"`).join(', ')}.`,
+                    suggestion: entries.map(e => e.replace(/[^\d-]/g, '')).filter(Boolean).join(', '),
+                };
+            }
+            return { value: parsePhases(entries) };
+        }
+        case 'json':
+            return { value: typeof value === 'string' ? value.trim() : JSON.stringify(value) };
+        case 'string':
+            return { value: String(value).trim() };
+        default:
+            // Fields outside the schema are passed through untouched.
+            return { value };
+    }
+};
+
+// Returns the row with every schema field in its canonical type, and a ValidationError for each
+// value that could not be converted. Empty fields are dropped because Firestore rejects undefined.
+export const normalizeRow = <T extends Record<string, any>>(entityType: EntityType, row: T): { row: T; errors: ValidationError[] } => {
+    const idField = Object.keys(ENTITY_SCHEMAS[entityType])[0];
+    const errors: ValidationError[] = [];
+    const normalized: Record<string, unknown> = {};
+    Object.entries(row).forEach(([field, raw]) => {
+        const { value, error, suggestion } = normalizeField(entityType, field, raw);
+        if (value !== undefined) normalized[field] = value;
+        if (error) errors.push({ entityType, id: row[idField] ?? row.id, field, message: error, ...(suggestion ? { suggestion } : {}), rowId: undefined });
+    });
+    return { row: normalized as T, errors };
+};
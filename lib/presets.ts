@@ -0,0 +1,39 @@
+import { PriorityPreset, Scenario } from '@/types';
+import { normalizeWeights } from '@/lib/criteria';
+
+export const BUILT_IN_PRESETS: PriorityPreset[] = [
+    { id: 'builtin-balanced', name: 'Balanced', priorities: normalizeWeights({ fulfill: 50, workload: 30, priority: 20 }) },
+    { id: 'builtin-fulfill', name: 'Max Fulfillment', priorities: normalizeWeights({ fulfill: 80, workload: 10, priority: 10 }) },
+    { id: 'builtin-workload', name: 'Min Workload', priorities: normalizeWeights({ fulfill: 20, workload: 70, priority: 10 }) },
+    { id: 'builtin-fair', name: 'Fair Share', priorities: normalizeWeights({ fulfill: 40, priority: 10, fairness: 30, groupBalance: 20 }) },
+];
+
+// Presets and scenarios are run through the allocator as saved, so their weights must all be numbers.
+export const isPriorityPreset = (value: unknown): value is PriorityPreset => {
+    if (typeof value !== 'object' || value === null) return false;
+    const { id, name, priorities } = value as Record<string, unknown>;
+    return typeof id === 'string' && typeof name === 'string'
+        && typeof priorities === 'object' && priorities !== null
+        && Object.values(priorities).every(weight => typeof weight === 'number');
+};
+
+export const isScenario = (value: unknown): value is Scenario => {
+    if (typeof value !== 'object' || value === null) return false;
+    const { id, name, priorities, ruleIds } = value as Record<string, unknown>;
+    return typeof id === 'string' && typeof name === 'string'
+        && typeof priorities === 'object' && priorities !== null
+        && Object.values(priorities).every(weight => typeof weight === 'number')
+        && (ruleIds === undefined || (Array.isArray(ruleIds) && ruleIds.every(ruleId => typeof ruleId === 'string')));
+};
+
+// The user's default preset, or Balanced when none is marked.
+export const defaultPreset = (presets: PriorityPreset[]) => presets.find(p => p.isDefault) ?? BUILT_IN_PRESETS[0];
+
+// Appends " (2)", " (3)", ... until the name is free among the built-in and saved presets.
+export const uniquePresetName = (name: string, presets: PriorityPreset[]) => {
+    const taken = new Set([...BUILT_IN_PRESETS, ...presets].map(p => p.name.toLowerCase()));
+    if (!taken.has(name.toLowerCase())) return name;
+    let n = 2;
+    while (taken.has(`${name} (${n})`.toLowerCase())) n++;
+    return `${name} (${n})`;
+};
@@ -0,0 +1,49 @@
+import { CriterionKey, Priorities, RankWeightScheme, WeightingMode, WeightingSettings } from '@/types';
+import { CRITERION_KEYS, normalizeWeights } from '@/lib/criteria';
+
+export const RANK_WEIGHT_SCHEMES: { [S in RankWeightScheme]: { label: string; description: string } } = {
+    'rank-sum': {
+        label: 'Rank sum',
+        description: 'Weights fall in equal steps from the top rank to the bottom one.',
+    },
+    'rank-reciprocal': {
+        label: 'Rank reciprocal',
+        description: 'Weights are proportional to 1 / rank, so the top criterion dominates.',
+    },
+    'rank-order-centroid': {
+        label: 'Rank order centroid',
+        description: 'The average of every weighting consistent with the order; steeper than rank sum at the top.',
+    },
+};
+
+export const DEFAULT_WEIGHTING: WeightingSettings = { mode: 'sliders', ranking: CRITERION_KEYS, scheme: 'rank-order-centroid' };
+
+// Raw weight for the criterion at 1-based rank r out of n.
+const rawRankWeight = (scheme: RankWeightScheme, r: number, n: number) => {
+    if (scheme === 'rank-sum') return n - r + 1;
+    if (scheme === 'rank-reciprocal') return 1 / r;
+    let centroid = 0;
+    for (let k = r; k <= n; k++) centroid += 1 / k;
+    return centroid / n;
+};
+
+export const rankWeights = (ranking: CriterionKey[], scheme: RankWeightScheme): Priorities => {
+    const weights: Partial<Priorities> = Object.fromEntries(CRITERION_KEYS.map(key => [key, 0]));
+    ranking.forEach((key, i) => { weights[key] = rawRankWeight(scheme, i + 1, ranking.length); });
+    return normalizeWeights(weights);
+};
+
+// Reads stored settings, dropping unknown criteria so older or hand-edited documents still load.
+export const parseWeightingSettings = (raw: unknown): WeightingSettings => {
+    if (typeof raw !== 'object' || raw === null) return DEFAULT_WEIGHTING;
+    const { mode, ranking, scheme } = raw as Record<string, unknown>;
+    const modes: WeightingMode[] = ['sliders', 'pairwise', 'ranking'];
+    const ranked = Array.isArray(ranking)
+        ? Array.from(new Set(ranking.filter((key): key is CriterionKey => (CRITERION_KEYS as unknown[]).includes(key))))
+        : [];
+    return {
+        mode: modes.includes(mode as WeightingMode) ? mode as WeightingMode : DEFAULT_WEIGHTING.mode,
+        ranking: ranked.length > 0 ? ranked : DEFAULT_WEIGHTING.ranking,
+        scheme: typeof scheme === 'string' && scheme in RANK_WEIGHT_SCHEMES ? scheme as RankWeightScheme : DEFAULT_WEIGHTING.scheme,
+    };
+};
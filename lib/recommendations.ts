@@ -0,0 +1,119 @@
+import { Client, Worker, Task, Rule, RuleRecommendation } from '@/types';
+import { allocate } from '@/lib/allocation';
+import { toList, toNumber } from '@/lib/values';
+import { ruleSignature } from '@/lib/rule-analysis';
+
+const MIN_SUPPORT_COUNT = 2;
+const MIN_CONFIDENCE = 0.8;
+const MAX_SET_SIZE = 4;
+const MAX_LISTED_CLIENTS = 10;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const recommendationKey = (rule: RuleRecommendation['rule']) => ruleSignature({ ...rule, id: '' } as Rule);
+
+// Frequent task sets over clients' RequestedTaskIDs, grown one task at a time (Apriori). Every
+// subset of a frequent set is frequent, so only frequent sets are extended.
+const frequentTaskSets = (transactions: string[][]) => {
+    const countOf = (set: string[]) => transactions.filter(t => set.every(id => t.includes(id))).length;
+    const items = Array.from(new Set(transactions.flat())).sort()
+        .filter(id => countOf([id]) >= MIN_SUPPORT_COUNT);
+
+    const frequent: { taskIds: string[]; count: number }[] = [];
+    let level = items.map(id => [id]);
+    while (level.length > 0 && level[0].length < MAX_SET_SIZE) {
+        level = level
+            .flatMap(set => items.filter(id => id > set[set.length - 1]).map(id => [...set, id]))
+            .filter(set => countOf(set) >= MIN_SUPPORT_COUNT);
+        frequent.push(...level.map(taskIds => ({ taskIds, count: countOf(taskIds) })));
+    }
+    return { frequent, countOf };
+};
+
+// Proposes a CO_RUN rule for each largest task set whose members are requested together by at
+// least MIN_SUPPORT_COUNT clients and, whichever member a client requests, by MIN_CONFIDENCE of them.
+// Mining depends on clients alone; sets an existing rule already covers are left to isCoveredByRules.
+const coRunRecommendations = (clients: Client[]): RuleRecommendation[] => {
+    const requesting = clients
+        .filter(c => c.ClientID)
+        .map(c => ({ id: c.ClientID, taskIds: Array.from(new Set(toList(c.RequestedTaskIDs))) }))
+        .filter(c => c.taskIds.length > 0);
+    const { frequent, countOf } = frequentTaskSets(requesting.map(c => c.taskIds));
+
+    const qualifying = frequent
+        .map(set => ({ ...set, confidence: set.count / Math.max(...set.taskIds.map(id => countOf([id]))) }))
+        .filter(set => set.confidence >= MIN_CONFIDENCE);
+
+    return qualifying
+        .filter(set => !qualifying.some(other => other.taskIds.length > set.taskIds.length && set.taskIds.every(id => other.taskIds.includes(id))))
+        .map(({ taskIds, count, confidence }) => {
+            const clientIds = requesting.filter(c => taskIds.every(id => c.taskIds.includes(id))).map(c => c.id);
+            const rule = { type: 'CO_RUN' as const, params: { taskIds } };
+            return {
+                key: recommendationKey(rule),
+                rule,
+                support: count / requesting.length,
+                confidence,
+                why: [
+                    `${count} of ${requesting.length} clients with requests ask for all of ${taskIds.join(', ')} (support ${percent(count / requesting.length)}).`,
+                    ...taskIds.map(id => {
+                        const total = countOf([id]);
+                        return `${count} of ${total} clients requesting ${id} also request ${taskIds.filter(other => other !== id).join(', ')} (${percent(count / total)}).`;
+                    }),
+                    `Clients: ${clientIds.slice(0, MAX_LISTED_CLIENTS).join(', ')}${clientIds.length > MAX_LISTED_CLIENTS ? `, and ${clientIds.length - MAX_LISTED_CLIENTS} more` : ''}.`,
+                ],
+            };
+        });
+};
+
+// Runs the allocation engine with the current rules and proposes a LOAD_LIMIT for each
+// WorkerGroup that has workers filled to their MaxLoadPerPhase, at the lowest such cap in the group,
+// so the limit is stated as a rule instead of being implied by individual rows.
+const loadLimitRecommendations = (clients: Client[], workers: Worker[], tasks: Task[], rules: Rule[]): RuleRecommendation[] => {
+    const plan = allocate(clients, workers, tasks, rules, {});
+    const groups = new Map<string, Worker[]>();
+    workers.filter(w => w.WorkerID && w.WorkerGroup).forEach(w => groups.set(w.WorkerGroup!, [...(groups.get(w.WorkerGroup!) || []), w]));
+
+    return Array.from(groups.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .flatMap(([group, members]) => {
+            const saturated = members.flatMap(w => {
+                const maxLoad = toNumber(w.MaxLoadPerPhase, Infinity);
+                const load = plan.workerLoad[w.WorkerID] || {};
+                const fullPhases = Object.keys(load).map(Number).filter(p => load[p] >= maxLoad).sort((a, b) => a - b);
+                return fullPhases.length > 0 ? [{ worker: w, maxLoad, fullPhases, usedPhases: Object.keys(load).length }] : [];
+            });
+            if (saturated.length === 0) return [];
+
+            const maxSlotsPerPhase = Math.min(...saturated.map(s => s.maxLoad));
+            const usedPhases = saturated.reduce((sum, s) => sum + s.usedPhases, 0);
+            const fullPhases = saturated.reduce((sum, s) => sum + s.fullPhases.length, 0);
+            const rule = { type: 'LOAD_LIMIT' as const, params: { workerGroup: group, maxSlotsPerPhase } };
+            return [{
+                key: recommendationKey(rule),
+                rule,
+                support: saturated.length / members.length,
+                confidence: fullPhases / usedPhases,
+                why: [
+                    `${saturated.length} of ${members.length} workers in ${group} are filled to their MaxLoadPerPhase in the current plan (support ${percent(saturated.length / members.length)}).`,
+                    `Those workers are full in ${fullPhases} of the ${usedPhases} phases they work (${percent(fullPhases / usedPhases)}).`,
+                    ...saturated.map(s => `${s.worker.WorkerID} reaches MaxLoadPerPhase ${s.maxLoad} in phase(s) ${s.fullPhases.join(', ')}.`),
+                ],
+            }];
+        });
+};
+
+// Deterministic rule suggestions mined from the loaded data; nothing is sent to an external service.
+// This runs a full allocation, so callers run it on request rather than on every render.
+export const recommendRules = (clients: Client[], workers: Worker[], tasks: Task[], rules: Rule[]): RuleRecommendation[] => [
+    ...coRunRecommendations(clients),
+    ...loadLimitRecommendations(clients, workers, tasks, rules),
+];
+
+// True once a rule states the suggestion: a CO_RUN containing all of its tasks, or any LOAD_LIMIT on
+// its WorkerGroup. Checked against the current rules, so accepted suggestions drop out without mining again.
+export const isCoveredByRules = (recommendation: RuleRecommendation, rules: Rule[]) => {
+    const { rule } = recommendation;
+    if (rule.type === 'CO_RUN') return rules.some(r => r.type === 'CO_RUN' && rule.params.taskIds.every(id => r.params.taskIds.includes(id)));
+    return rules.some(r => r.type === 'LOAD_LIMIT' && r.params.workerGroup === rule.params.workerGroup);
+};
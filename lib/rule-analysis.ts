@@ -0,0 +1,144 @@
+import { Task, Rule, RuleIssue, TaskGroupRule, SequentialRule } from '@/types';
+import { toList } from '@/lib/values';
+import { isTaskGroupRule, phaseWindowRuns, resolveRules, RULE_LABELS } from '@/lib/rules';
+
+interface SequentialEdge {
+    from: string;
+    to: string;
+    ruleId: string;
+}
+
+const SEVERITY_ORDER: RuleIssue['severity'][] = ['error', 'warning', 'info'];
+
+const referencedTaskIds = (rule: Rule): string[] => {
+    if (isTaskGroupRule(rule)) return rule.params.taskIds;
+    if (rule.type === 'PHASE_WINDOW' && rule.params.taskId) return [rule.params.taskId];
+    return [];
+};
+
+// Params in a comparable form. Task order only matters for SEQUENTIAL rules, and Firestore may
+// return map keys in any order.
+export const ruleSignature = (rule: Rule) => {
+    if (isTaskGroupRule(rule)) {
+        const taskIds = rule.type === 'SEQUENTIAL' ? rule.params.taskIds : rule.params.taskIds.slice().sort();
+        return `${rule.type}:${JSON.stringify(taskIds)}`;
+    }
+    if (rule.type === 'PHASE_WINDOW') return `${rule.type}:${rule.params.taskId}:${phaseWindowRuns(rule)}`;
+    return `${rule.type}:${JSON.stringify(rule.params, Object.keys(rule.params).sort())}`;
+};
+
+const sequentialEdges = (rules: SequentialRule[]): SequentialEdge[] =>
+    rules.flatMap(r => r.params.taskIds.slice(1).map((to, i) => ({ from: r.params.taskIds[i], to, ruleId: r.id })));
+
+// Shortest chain of edges leading from one task to another, if any.
+const findPath = (edges: SequentialEdge[], from: string, to: string): SequentialEdge[] | null => {
+    const via = new Map<string, SequentialEdge>();
+    const queue = [from];
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (current === to) {
+            const path: SequentialEdge[] = [];
+            for (let id = to; id !== from; id = via.get(id)!.from) path.unshift(via.get(id)!);
+            return path;
+        }
+        edges.filter(e => e.from === current && e.to !== from && !via.has(e.to)).forEach(e => {
+            via.set(e.to, e);
+            queue.push(e.to);
+        });
+    }
+    return null;
+};
+
+// Static checks over the rules list alone, plus the TaskIDs and CoRunTaskIDs in `tasks`. Unlike
+// diagnose(), nothing here depends on workers or slots, so it is cheap enough to run on every edit.
+export const analyzeRules = (rules: Rule[], tasks: Task[]): RuleIssue[] => {
+    const issues: RuleIssue[] = [];
+    const label = (rule: Rule) => `Rule #${rules.indexOf(rule) + 1}`;
+    const add = (rule: Rule, severity: RuleIssue['severity'], code: RuleIssue['code'], message: string, related: Rule[] = []) =>
+        issues.push({ ruleId: rule.id, severity, code, message, relatedRuleIds: related.map(r => r.id) });
+
+    const knownTaskIds = new Set(tasks.map(t => t.TaskID).filter(Boolean));
+    const enabled = rules.filter(r => !r.disabled);
+    const groupRules = enabled.filter(isTaskGroupRule);
+
+    rules.forEach(rule => {
+        const unknown = referencedTaskIds(rule).filter(id => !knownTaskIds.has(id));
+        if (unknown.length > 0) {
+            add(rule, 'warning', 'UNKNOWN_TASK', `References TaskID(s) not found in the tasks data: ${unknown.join(', ')}.`);
+        }
+        if (isTaskGroupRule(rule) && rule.params.taskIds.length < 2) {
+            add(rule, 'info', 'NO_EFFECT', 'Needs at least two TaskIDs to have any effect.');
+        }
+        if ((rule.type === 'SLOT_RESTRICTION' && !rule.params.group) || (rule.type === 'LOAD_LIMIT' && !rule.params.workerGroup)) {
+            add(rule, 'info', 'NO_EFFECT', 'No group selected yet, so the rule matches nothing.');
+        }
+        if (rule.type === 'PHASE_WINDOW' && !rule.params.taskId) {
+            add(rule, 'info', 'NO_EFFECT', 'No task selected yet, so the rule matches nothing.');
+        }
+    });
+
+    const firstBySignature = new Map<string, Rule>();
+    rules.forEach(rule => {
+        const signature = ruleSignature(rule);
+        const first = firstBySignature.get(signature);
+        if (first) add(rule, 'warning', 'DUPLICATE', `Duplicate of ${label(first)}.`, [first]);
+        else firstBySignature.set(signature, rule);
+    });
+
+    const edges = sequentialEdges(groupRules.filter((r): r is SequentialRule => r.type === 'SEQUENTIAL'));
+    edges.forEach(edge => {
+        const rule = rules.find(r => r.id === edge.ruleId)!;
+        if (issues.some(i => i.ruleId === rule.id && i.code === 'SEQUENTIAL_CYCLE')) return;
+        const back = findPath(edges, edge.to, edge.from);
+        if (!back) return;
+        const cycle = [edge, ...back];
+        const related = rules.filter(r => r !== rule && cycle.some(e => e.ruleId === r.id));
+        add(rule, 'error', 'SEQUENTIAL_CYCLE',
+            `SEQUENTIAL rules form a cycle: ${[...cycle.map(e => e.from), edge.from].join(' → ')}. None of these tasks can be scheduled.`,
+            related);
+    });
+
+    const { resolution } = resolveRules(rules);
+    const statusOf = (rule: Rule) => resolution[rules.indexOf(rule)];
+    const hasOverride = (a: TaskGroupRule, b: TaskGroupRule) => enabled.some(r => r.type === 'PRECEDENCE_OVERRIDE' &&
+        ((r.params.winner === a.type && r.params.loser === b.type) || (r.params.winner === b.type && r.params.loser === a.type)));
+    groupRules.forEach((rule, i) => groupRules.slice(i + 1).forEach(other => {
+        if (rule.type === other.type || (rule.type !== 'CO_RUN' && other.type !== 'CO_RUN')) return;
+        const shared = rule.params.taskIds.filter(id => other.params.taskIds.includes(id));
+        if (shared.length < 2) return;
+        const severity = hasOverride(rule, other) ? 'info' : 'warning';
+        [[rule, other], [other, rule]].forEach(([self, opponent]) => {
+            const selfStatus = statusOf(self);
+            const opponentStatus = statusOf(opponent);
+            const outcome = selfStatus.overriddenBy === opponent.id
+                ? ` ${selfStatus.reason} This rule is ignored.`
+                : opponentStatus.overriddenBy === self.id ? ` ${opponentStatus.reason} ${label(opponent)} is ignored.` : '';
+            add(self, severity, 'CONTRADICTION',
+                `Contradicts ${label(opponent)} (${RULE_LABELS[opponent.type]}) on tasks ${shared.join(', ')}.${outcome}`,
+                [opponent]);
+        });
+    }));
+
+    const taskById = new Map(tasks.filter(t => t.TaskID).map(t => [t.TaskID, t]));
+    groupRules.forEach(rule => {
+        if (rule.type === 'CO_RUN') {
+            rule.params.taskIds.forEach(id => {
+                const declared = toList(taskById.get(id)?.CoRunTaskIDs);
+                if (declared.length === 0) return;
+                const extra = rule.params.taskIds.filter(other => other !== id && !declared.includes(other)
+                    && !toList(taskById.get(other)?.CoRunTaskIDs).includes(id));
+                if (extra.length === 0) return;
+                add(rule, 'warning', 'CO_RUN_TASK_CONFLICT',
+                    `Groups ${id} with ${extra.join(', ')}, but ${id}'s CoRunTaskIDs lists ${declared.join(', ')}. Both groupings apply, so all of these tasks must run together.`);
+            });
+            return;
+        }
+        taskById.forEach(task => toList(task.CoRunTaskIDs).forEach(partner => {
+            if (!rule.params.taskIds.includes(task.TaskID) || !rule.params.taskIds.includes(partner)) return;
+            add(rule, 'error', 'CO_RUN_TASK_CONFLICT',
+                `${task.TaskID}'s CoRunTaskIDs requires it to run with ${partner}, but this ${RULE_LABELS[rule.type]} rule keeps them apart.`);
+        }));
+    });
+
+    return issues.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+};
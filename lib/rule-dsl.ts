@@ -0,0 +1,258 @@
+import { Rule, RuleType, TaskGroupRule } from '@/types';
+import { generateUniqueId } from '@/lib/utils';
+import { validateRule } from '@/lib/rules';
+import { ruleSignature } from '@/lib/rule-analysis';
+
+// A line-based text form of the rules list, e.g.
+//
+//   corun T1, T2
+//   disabled exclude T3, T4
+//   sequence T5 -> T6 -> T7
+//   slots worker GroupA min 2
+//   loadlimit GroupB max 3
+//   window T7 phases 2..4
+//   precedence corun over exclude
+//
+// Names that are not plain words are written in double quotes. `#` starts a comment.
+// printRuleDsl(parseRuleDsl(text).rules) gives back `text` for any printed text; comments and
+// spacing are not kept. Rule ids are not part of the syntax.
+
+export interface RuleDslError {
+    line: number;
+    column: number;
+    message: string;
+}
+
+export type RuleDslResult = { rules: Rule[]; errors: RuleDslError[] };
+
+type TokenKind = 'word' | 'string' | 'comma' | 'arrow' | 'range';
+
+interface Token {
+    kind: TokenKind;
+    text: string;
+    column: number;
+}
+
+class DslSyntaxError extends Error {
+    constructor(public column: number, message: string) {
+        super(message);
+    }
+}
+
+const KEYWORDS: { [T in RuleType]: string } = {
+    CO_RUN: 'corun',
+    EXCLUSION: 'exclude',
+    SEQUENTIAL: 'sequence',
+    SLOT_RESTRICTION: 'slots',
+    LOAD_LIMIT: 'loadlimit',
+    PHASE_WINDOW: 'window',
+    PRECEDENCE_OVERRIDE: 'precedence',
+};
+
+const FAMILIES: TaskGroupRule['type'][] = ['CO_RUN', 'EXCLUSION', 'SEQUENTIAL'];
+
+const WORD_CHAR = /[A-Za-z0-9_\-.]/;
+
+const tokenize = (line: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < line.length) {
+        const ch = line[i];
+        const column = i + 1;
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (ch === '#') {
+            break;
+        } else if (ch === ',') {
+            tokens.push({ kind: 'comma', text: ch, column });
+            i++;
+        } else if (line.startsWith('->', i)) {
+            tokens.push({ kind: 'arrow', text: '->', column });
+            i += 2;
+        } else if (line.startsWith('..', i)) {
+            tokens.push({ kind: 'range', text: '..', column });
+            i += 2;
+        } else if (ch === '"') {
+            let text = '';
+            i++;
+            while (i < line.length && line[i] !== '"') {
+                if (line[i] === '\\' && i + 1 < line.length) i++;
+                text += line[i++];
+            }
+            if (i >= line.length) throw new DslSyntaxError(column, 'Unterminated quoted name.');
+            tokens.push({ kind: 'string', text, column });
+            i++;
+        } else if (WORD_CHAR.test(ch)) {
+            let text = '';
+            while (i < line.length && WORD_CHAR.test(line[i]) && !line.startsWith('->', i) && !line.startsWith('..', i)) {
+                text += line[i++];
+            }
+            tokens.push({ kind: 'word', text, column });
+        } else {
+            throw new DslSyntaxError(column, `Unexpected character "${ch}".`);
+        }
+    }
+    return tokens;
+};
+
+// Returns null for blank and comment-only lines.
+const parseLine = (line: string): Omit<Rule, 'id'> | null => {
+    const tokens = tokenize(line);
+    if (tokens.length === 0) return null;
+    let pos = 0;
+
+    const describe = (token?: Token) => token ? `"${token.text}"` : 'end of line';
+    const fail = (expected: string): never => {
+        const token = tokens[pos];
+        throw new DslSyntaxError(token ? token.column : line.trimEnd().length + 1, `Expected ${expected}, found ${describe(token)}.`);
+    };
+    const isWord = (token: Token | undefined, text: string) => token?.kind === 'word' && token.text.toLowerCase() === text;
+    const keyword = (text: string) => {
+        if (!isWord(tokens[pos], text)) fail(`"${text}"`);
+        pos++;
+    };
+    const name = (what: string) => {
+        const token = tokens[pos];
+        if (token?.kind !== 'word' && token?.kind !== 'string') return fail(what);
+        pos++;
+        return token.text;
+    };
+    const number = (what: string) => {
+        const token = tokens[pos];
+        if (token?.kind !== 'word' || !/^\d+$/.test(token.text)) return fail(what);
+        pos++;
+        return parseInt(token.text, 10);
+    };
+    const nameList = (separator: TokenKind) => {
+        if (pos >= tokens.length) return [];
+        const names = [name('a TaskID')];
+        while (tokens[pos]?.kind === separator) {
+            pos++;
+            names.push(name('a TaskID'));
+        }
+        return names;
+    };
+    const family = () => {
+        const type = FAMILIES.find(t => isWord(tokens[pos], KEYWORDS[t]));
+        if (!type) return fail(FAMILIES.map(t => `"${KEYWORDS[t]}"`).join(', ').replace(/, ([^,]*)$/, ' or $1'));
+        pos++;
+        return type;
+    };
+
+    const disabled = isWord(tokens[pos], 'disabled');
+    if (disabled) pos++;
+    const type = (Object.keys(KEYWORDS) as RuleType[]).find(t => isWord(tokens[pos], KEYWORDS[t]));
+    if (!type) fail(`a rule keyword (${Object.values(KEYWORDS).join(', ')})`);
+    pos++;
+
+    let params: Rule['params'];
+    switch (type!) {
+        case 'CO_RUN':
+        case 'EXCLUSION':
+            params = { taskIds: nameList('comma') };
+            break;
+        case 'SEQUENTIAL':
+            params = { taskIds: nameList('arrow') };
+            break;
+        case 'SLOT_RESTRICTION': {
+            const groupType = isWord(tokens[pos], 'client') ? 'client' : isWord(tokens[pos], 'worker') ? 'worker' : fail('"client" or "worker"');
+            pos++;
+            const group = name('a group name');
+            keyword('min');
+            params = { groupType, group, minCommonSlots: number('a number of slots') };
+            break;
+        }
+        case 'LOAD_LIMIT': {
+            const workerGroup = name('a WorkerGroup');
+            keyword('max');
+            params = { workerGroup, maxSlotsPerPhase: number('a number of slots') };
+            break;
+        }
+        case 'PHASE_WINDOW': {
+            const taskId = name('a TaskID');
+            keyword('phases');
+            const first = number('a phase number');
+            if (tokens[pos]?.kind === 'range') {
+                pos++;
+                params = { taskId, range: { start: first, end: number('a phase number') } };
+            } else {
+                const allowedPhases = [first];
+                while (tokens[pos]?.kind === 'comma') {
+                    pos++;
+                    allowedPhases.push(number('a phase number'));
+                }
+                params = { taskId, allowedPhases };
+            }
+            break;
+        }
+        case 'PRECEDENCE_OVERRIDE': {
+            const winner = family();
+            keyword('over');
+            params = { winner, loser: family() };
+            break;
+        }
+    }
+    if (pos < tokens.length) fail('end of line');
+
+    return { type, params, ...(disabled ? { disabled } : {}) } as Omit<Rule, 'id'>;
+};
+
+// Parses every line and collects all errors; `rules` only holds the lines that parsed and passed
+// validateRule, so callers should not apply it while `errors` is non-empty.
+export const parseRuleDsl = (text: string): RuleDslResult => {
+    const rules: Rule[] = [];
+    const errors: RuleDslError[] = [];
+    text.split(/\r?\n/).forEach((line, index) => {
+        const lineNumber = index + 1;
+        try {
+            const parsed = parseLine(line);
+            if (!parsed) return;
+            const result = validateRule({ id: generateUniqueId(), ...parsed });
+            if (result.ok) rules.push(result.rule);
+            else result.errors.forEach(message => errors.push({ line: lineNumber, column: 1, message }));
+        } catch (error: any) {
+            if (!(error instanceof DslSyntaxError)) throw error;
+            errors.push({ line: lineNumber, column: error.column, message: error.message });
+        }
+    });
+    return { rules, errors };
+};
+
+const quote = (name: string) =>
+    /^[A-Za-z0-9_\-.]+$/.test(name) && !name.includes('..') && !name.includes('->')
+        ? name
+        : `"${name.replace(/["\\]/g, '\\$&')}"`;
+
+export const printRule = (rule: Rule): string => {
+    const prefix = `${rule.disabled ? 'disabled ' : ''}${KEYWORDS[rule.type]}`;
+    switch (rule.type) {
+        case 'SEQUENTIAL':
+            return [prefix, rule.params.taskIds.map(quote).join(' -> ')].filter(Boolean).join(' ');
+        case 'SLOT_RESTRICTION':
+            return `${prefix} ${rule.params.groupType} ${quote(rule.params.group)} min ${rule.params.minCommonSlots}`;
+        case 'LOAD_LIMIT':
+            return `${prefix} ${quote(rule.params.workerGroup)} max ${rule.params.maxSlotsPerPhase}`;
+        case 'PHASE_WINDOW': {
+            const { taskId, range, allowedPhases } = rule.params;
+            return `${prefix} ${quote(taskId)} phases ${range ? `${range.start}..${range.end}` : (allowedPhases || []).join(', ')}`;
+        }
+        case 'PRECEDENCE_OVERRIDE':
+            return `${prefix} ${KEYWORDS[rule.params.winner]} over ${KEYWORDS[rule.params.loser]}`;
+        default:
+            return [prefix, rule.params.taskIds.map(quote).join(', ')].filter(Boolean).join(' ');
+    }
+};
+
+export const printRuleDsl = (rules: Rule[]): string => rules.map(printRule).join('\n') + (rules.length > 0 ? '\n' : '');
+
+// Parsed rules get fresh ids. Give each one the id of an equivalent existing rule instead, so
+// applying unchanged text keeps rule ids (and references to them) stable.
+export const adoptRuleIds = (parsed: Rule[], existing: Rule[]): Rule[] => {
+    const unclaimed = existing.slice();
+    return parsed.map(rule => {
+        const index = unclaimed.findIndex(r => ruleSignature(r) === ruleSignature(rule));
+        if (index === -1) return rule;
+        const [match] = unclaimed.splice(index, 1);
+        return { ...rule, id: match.id };
+    });
+};
@@ -0,0 +1,223 @@
+import { Rule, RuleType, QuarantinedRule, TaskGroupRule, PhaseWindowRule, RuleResolution } from '@/types';
+import { MAX_PHASE } from '@/lib/values';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+type ParamsValidator = (params: Record<string, unknown>) => string[];
+
+export type RuleValidationResult = { ok: true; rule: Rule } | { ok: false; errors: string[] };
+
+const validateTaskIds: ParamsValidator = ({ taskIds }) => {
+    if (!Array.isArray(taskIds)) return ['params.taskIds must be an array of TaskIDs.'];
+    const errors: string[] = [];
+    taskIds.forEach((id, i) => {
+        if (typeof id !== 'string' || !id.trim()) errors.push(`params.taskIds[${i}] must be a non-empty string.`);
+    });
+    if (new Set(taskIds).size !== taskIds.length) errors.push('params.taskIds contains duplicate TaskIDs.');
+    return errors;
+};
+
+const isPositiveInteger = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isPhase = (value: unknown) => isPositiveInteger(value) && (value as number) <= MAX_PHASE;
+
+const validateSlotRestriction: ParamsValidator = ({ groupType, group, minCommonSlots }) => {
+    const errors: string[] = [];
+    if (groupType !== 'client' && groupType !== 'worker') errors.push('params.groupType must be "client" or "worker".');
+    if (typeof group !== 'string') errors.push('params.group must name a ClientGroup or WorkerGroup.');
+    if (!isPositiveInteger(minCommonSlots)) errors.push('params.minCommonSlots must be a positive integer.');
+    return errors;
+};
+
+const validateLoadLimit: ParamsValidator = ({ workerGroup, maxSlotsPerPhase }) => {
+    const errors: string[] = [];
+    if (typeof workerGroup !== 'string') errors.push('params.workerGroup must name a WorkerGroup.');
+    if (typeof maxSlotsPerPhase !== 'number' || !Number.isInteger(maxSlotsPerPhase) || maxSlotsPerPhase < 0) {
+        errors.push('params.maxSlotsPerPhase must be a non-negative integer.');
+    }
+    return errors;
+};
+
+const validatePhaseWindow: ParamsValidator = ({ taskId, allowedPhases, range }) => {
+    const errors: string[] = [];
+    if (typeof taskId !== 'string') errors.push('params.taskId must be a TaskID.');
+    if ((allowedPhases === undefined) === (range === undefined)) {
+        errors.push('Exactly one of params.allowedPhases or params.range must be set.');
+    }
+    if (allowedPhases !== undefined && (!Array.isArray(allowedPhases) || allowedPhases.length === 0 || !allowedPhases.every(isPhase))) {
+        errors.push(`params.allowedPhases must be a non-empty array of phase numbers from 1 to ${MAX_PHASE}.`);
+    }
+    if (range !== undefined) {
+        const { start, end } = isRecord(range) ? range : { start: undefined, end: undefined };
+        if (!isPhase(start) || !isPhase(end) || (end as number) < (start as number)) {
+            errors.push(`params.range must have phase numbers start <= end, no higher than ${MAX_PHASE}.`);
+        }
+    }
+    return errors;
+};
+
+const TASK_GROUP_TYPES: TaskGroupRule['type'][] = ['CO_RUN', 'EXCLUSION', 'SEQUENTIAL'];
+
+const validatePrecedenceOverride: ParamsValidator = ({ winner, loser }) => {
+    const errors: string[] = [];
+    const isFamily = (value: unknown) => (TASK_GROUP_TYPES as unknown[]).includes(value);
+    if (!isFamily(winner)) errors.push('params.winner must be CO_RUN, EXCLUSION or SEQUENTIAL.');
+    if (!isFamily(loser)) errors.push('params.loser must be CO_RUN, EXCLUSION or SEQUENTIAL.');
+    if (winner === loser) errors.push('params.winner and params.loser must be different rule families.');
+    return errors;
+};
+
+// One params validator per rule type. A type missing here is treated as unknown. Blank group and
+// task references are allowed so a freshly added rule can be saved before it is filled in; such
+// rules match nothing.
+export const ruleValidators: { [T in RuleType]: ParamsValidator } = {
+    CO_RUN: validateTaskIds,
+    EXCLUSION: validateTaskIds,
+    SEQUENTIAL: validateTaskIds,
+    SLOT_RESTRICTION: validateSlotRestriction,
+    LOAD_LIMIT: validateLoadLimit,
+    PHASE_WINDOW: validatePhaseWindow,
+    PRECEDENCE_OVERRIDE: validatePrecedenceOverride,
+};
+
+export const RULE_LABELS: { [T in RuleType]: string } = {
+    CO_RUN: 'Co-run',
+    EXCLUSION: 'Exclusion',
+    SEQUENTIAL: 'Sequential',
+    SLOT_RESTRICTION: 'Slot Restriction',
+    LOAD_LIMIT: 'Load Limit',
+    PHASE_WINDOW: 'Phase Window',
+    PRECEDENCE_OVERRIDE: 'Precedence Override',
+};
+
+export const RULE_TYPES = Object.keys(ruleValidators) as RuleType[];
+
+export const validateRule = (raw: unknown): RuleValidationResult => {
+    if (!isRecord(raw)) return { ok: false, errors: ['Rule must be a JSON object.'] };
+
+    const { id, type, params, disabled } = raw;
+    const errors: string[] = [];
+    if (typeof id !== 'string' || !id) errors.push('id must be a non-empty string.');
+    if (disabled !== undefined && typeof disabled !== 'boolean') errors.push('disabled must be true or false.');
+
+    const knownType = typeof type === 'string' && (RULE_TYPES as string[]).includes(type);
+    if (!knownType) errors.push(`Unknown rule type: ${JSON.stringify(type)}.`);
+    if (!isRecord(params)) errors.push('params must be an object.');
+    else if (knownType) errors.push(...ruleValidators[type as RuleType](params));
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, rule: raw as unknown as Rule };
+};
+
+// Splits untrusted input into valid rules and quarantined entries. Later duplicates of an id
+// are quarantined so rule ids stay unique.
+export const partitionRules = (raw: unknown): { rules: Rule[]; quarantined: QuarantinedRule[] } => {
+    if (!Array.isArray(raw)) {
+        return { rules: [], quarantined: raw === undefined ? [] : [{ raw, errors: ['Rules must be a JSON array.'] }] };
+    }
+    const rules: Rule[] = [];
+    const quarantined: QuarantinedRule[] = [];
+    raw.forEach(entry => {
+        const result = validateRule(entry);
+        if (!result.ok) quarantined.push({ raw: entry, errors: result.errors });
+        else if (rules.some(r => r.id === result.rule.id)) quarantined.push({ raw: entry, errors: [`Duplicate rule id: ${result.rule.id}.`] });
+        else rules.push(result.rule);
+    });
+    return { rules, quarantined };
+};
+
+export const isTaskGroupRule = (rule: Rule): rule is TaskGroupRule =>
+    rule.type === 'CO_RUN' || rule.type === 'EXCLUSION' || rule.type === 'SEQUENTIAL';
+
+export const createRule = (type: RuleType, id: string): Rule => {
+    switch (type) {
+        case 'SLOT_RESTRICTION':
+            return { id, type, params: { groupType: 'worker', group: '', minCommonSlots: 1 } };
+        case 'LOAD_LIMIT':
+            return { id, type, params: { workerGroup: '', maxSlotsPerPhase: 1 } };
+        case 'PHASE_WINDOW':
+            return { id, type, params: { taskId: '', allowedPhases: [1] } };
+        case 'PRECEDENCE_OVERRIDE':
+            return { id, type, params: { winner: 'CO_RUN', loser: 'EXCLUSION' } };
+        default:
+            return { id, type, params: { taskIds: [] } };
+    }
+};
+
+export const phaseWindowPhases = (rule: PhaseWindowRule): number[] => {
+    const { allowedPhases, range } = rule.params;
+    if (range) return Array.from({ length: range.end - range.start + 1 }, (_, i) => range.start + i);
+    return (allowedPhases || []).slice().sort((a, b) => a - b);
+};
+
+// The window as runs of consecutive phases, such as "1-3, 5", for comparing and printing windows
+// without listing every phase of a range.
+export const phaseWindowRuns = (rule: PhaseWindowRule): string => {
+    const { allowedPhases, range } = rule.params;
+    const runs: [number, number][] = range ? [[range.start, range.end]] : [];
+    Array.from(new Set(allowedPhases || [])).sort((a, b) => a - b).forEach(p => {
+        const last = runs[runs.length - 1];
+        if (last && p === last[1] + 1) last[1] = p;
+        else runs.push([p, p]);
+    });
+    return runs.map(([start, end]) => (start === end ? `${start}` : `${start}-${end}`)).join(', ');
+};
+
+export const describeRule = (rule: Rule): string => {
+    switch (rule.type) {
+        case 'SLOT_RESTRICTION':
+            return `${rule.params.groupType === 'client' ? 'ClientGroup' : 'WorkerGroup'} ${rule.params.group} shares ≥ ${rule.params.minCommonSlots} slots`;
+        case 'LOAD_LIMIT':
+            return `WorkerGroup ${rule.params.workerGroup} ≤ ${rule.params.maxSlotsPerPhase} per phase`;
+        case 'PHASE_WINDOW':
+            return `${rule.params.taskId} in phases ${phaseWindowRuns(rule)}`;
+        case 'PRECEDENCE_OVERRIDE':
+            return `${RULE_LABELS[rule.params.winner]} wins over ${RULE_LABELS[rule.params.loser]}`;
+        default:
+            return rule.params.taskIds.join(rule.type === 'SEQUENTIAL' ? ' → ' : ', ');
+    }
+};
+
+// CO_RUN contradicts EXCLUSION and SEQUENTIAL when both cover the same pair of tasks: the tasks
+// cannot share a start phase and also not overlap, or run one after the other.
+const contradicts = (a: TaskGroupRule, b: TaskGroupRule) => {
+    if (a.type === b.type || (a.type !== 'CO_RUN' && b.type !== 'CO_RUN')) return false;
+    return a.params.taskIds.filter(id => b.params.taskIds.includes(id)).length >= 2;
+};
+
+// Decides which enabled rules take effect. Rules are ranked by their position in the list, first
+// being highest. When two task-group rules contradict, the first enabled PRECEDENCE_OVERRIDE naming
+// both families picks the winner; otherwise the higher-ranked rule wins. Losing rules are left out
+// of `effective` so the engine and diagnosis never see both sides of a contradiction.
+export const resolveRules = (rules: Rule[]): { effective: Rule[]; resolution: RuleResolution[] } => {
+    const overrides = rules.flatMap(r => !r.disabled && r.type === 'PRECEDENCE_OVERRIDE' ? [r] : []);
+    const overrideFor = (a: TaskGroupRule, b: TaskGroupRule) => overrides.find(o =>
+        (o.params.winner === a.type && o.params.loser === b.type) || (o.params.winner === b.type && o.params.loser === a.type));
+
+    const resolution: RuleResolution[] = rules.map((rule, index) => ({
+        ruleId: rule.id,
+        rank: index + 1,
+        status: rule.disabled ? 'disabled' : 'active',
+    }));
+    const active = (index: number) => resolution[index].status === 'active';
+
+    rules.forEach((rule, j) => {
+        if (!isTaskGroupRule(rule)) return;
+        for (let i = 0; i < j && active(j); i++) {
+            const earlier = rules[i];
+            if (!active(i) || !isTaskGroupRule(earlier) || !contradicts(earlier, rule)) continue;
+            const override = overrideFor(earlier, rule);
+            const [winner, loser] = override?.params.winner === rule.type ? [j, i] : [i, j];
+            resolution[loser] = {
+                ...resolution[loser],
+                status: 'overridden',
+                overriddenBy: rules[winner].id,
+                reason: override
+                    ? `Rule #${rules.indexOf(override) + 1} gives ${RULE_LABELS[rules[winner].type]} precedence over ${RULE_LABELS[rules[loser].type]}.`
+                    : `Rule #${winner + 1} ranks higher and covers the same tasks.`,
+            };
+        }
+    });
+
+    return { effective: rules.filter((_, index) => resolution[index].status !== 'overridden'), resolution };
+};
@@ -0,0 +1,118 @@
+import { Task, Worker, Rule, RuleDraft, RuleTemplate, RuleTemplateKind } from '@/types';
+import { toList, toNumber } from '@/lib/values';
+import { generateUniqueId } from '@/lib/utils';
+import { validateRule } from '@/lib/rules';
+import { ruleSignature } from '@/lib/rule-analysis';
+
+export interface TemplateParam {
+    key: string;
+    label: string;
+    // Where the editor takes its choices from.
+    source: 'skill' | 'workerGroup' | 'number';
+}
+
+interface TemplateData {
+    tasks: Task[];
+    workers: Worker[];
+}
+
+interface TemplateKindDefinition {
+    label: string;
+    description: string;
+    params: TemplateParam[];
+    // An error says why the template yields no rule for these values and this data.
+    expand: (values: RuleTemplate['values'], data: TemplateData) => { drafts: RuleDraft[] } | { error: string };
+}
+
+const tasksWithSkill = (tasks: Task[], skill: string) =>
+    tasks.filter(t => t.TaskID && toList(t.RequiredSkills).includes(skill)).map(t => t.TaskID);
+
+export const TEMPLATE_KINDS: { [K in RuleTemplateKind]: TemplateKindDefinition } = {
+    SKILL_PHASE_WINDOW: {
+        label: 'Skill phase window',
+        description: 'Every task requiring a skill may only run in a range of phases.',
+        params: [
+            { key: 'skill', label: 'Required skill', source: 'skill' },
+            { key: 'start', label: 'From phase', source: 'number' },
+            { key: 'end', label: 'To phase', source: 'number' },
+        ],
+        expand: ({ skill, start, end }, { tasks }) => {
+            const taskIds = tasksWithSkill(tasks, String(skill));
+            if (taskIds.length === 0) return { error: `No tasks require skill ${skill}.` };
+            return {
+                drafts: taskIds.map(taskId => ({
+                    type: 'PHASE_WINDOW',
+                    params: { taskId, range: { start: toNumber(start, 0), end: toNumber(end, 0) } },
+                })),
+            };
+        },
+    },
+    SKILL_EXCLUSION: {
+        label: 'Skill exclusion',
+        description: 'Tasks requiring a skill never run at the same time for a client.',
+        params: [{ key: 'skill', label: 'Required skill', source: 'skill' }],
+        expand: ({ skill }, { tasks }) => {
+            const taskIds = tasksWithSkill(tasks, String(skill));
+            if (taskIds.length < 2) return { error: `Fewer than two tasks require skill ${skill}.` };
+            return { drafts: [{ type: 'EXCLUSION', params: { taskIds } }] };
+        },
+    },
+    GROUP_LOAD_LIMIT: {
+        label: 'Group load limit',
+        description: 'Workers in a group never take more than N slots per phase.',
+        params: [
+            { key: 'workerGroup', label: 'WorkerGroup', source: 'workerGroup' },
+            { key: 'maxSlotsPerPhase', label: 'Max slots per phase', source: 'number' },
+        ],
+        expand: ({ workerGroup, maxSlotsPerPhase }, { workers }) => {
+            const max = toNumber(maxSlotsPerPhase, NaN);
+            if (!Number.isInteger(max) || max < 0) {
+                return { error: `Max slots per phase must be a whole number of 0 or more, got "${maxSlotsPerPhase ?? ''}".` };
+            }
+            if (!workers.some(w => w.WorkerGroup === workerGroup)) return { error: `No workers in group ${workerGroup}.` };
+            return { drafts: [{ type: 'LOAD_LIMIT', params: { workerGroup: String(workerGroup), maxSlotsPerPhase: max } }] };
+        },
+    },
+};
+
+export const TEMPLATE_KIND_LIST = Object.keys(TEMPLATE_KINDS) as RuleTemplateKind[];
+
+export const isRuleTemplate = (value: unknown): value is RuleTemplate => {
+    if (typeof value !== 'object' || value === null) return false;
+    const { id, name, kind, values } = value as Record<string, unknown>;
+    return typeof id === 'string' && typeof name === 'string'
+        && (TEMPLATE_KIND_LIST as unknown[]).includes(kind)
+        && typeof values === 'object' && values !== null;
+};
+
+export const missingTemplateParams = (kind: RuleTemplateKind, values: RuleTemplate['values']) =>
+    TEMPLATE_KINDS[kind].params.filter(p => values[p.key] === undefined || String(values[p.key]).trim() === '');
+
+// Expands a template against the loaded data into rules ready to add. Expanded rules that already
+// exist are skipped, and ones that fail validation are reported rather than added, as is the reason
+// when the template yields no rule at all.
+export const instantiateTemplate = (
+    kind: RuleTemplateKind,
+    values: RuleTemplate['values'],
+    data: TemplateData,
+    existing: Rule[],
+): { rules: Rule[]; duplicates: number; errors: string[] } => {
+    const signatures = new Set(existing.map(ruleSignature));
+    const rules: Rule[] = [];
+    const errors: string[] = [];
+    let duplicates = 0;
+    const expansion = TEMPLATE_KINDS[kind].expand(values, data);
+    if ('error' in expansion) return { rules, duplicates, errors: [expansion.error] };
+    expansion.drafts.forEach(draft => {
+        const result = validateRule({ ...draft, id: generateUniqueId() });
+        if (!result.ok) {
+            errors.push(...result.errors);
+        } else if (signatures.has(ruleSignature(result.rule))) {
+            duplicates++;
+        } else {
+            signatures.add(ruleSignature(result.rule));
+            rules.push(result.rule);
+        }
+    });
+    return { rules, duplicates, errors: Array.from(new Set(errors)) };
+};
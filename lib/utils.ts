@@ -9,8 +9,7 @@ export function cn(...inputs: ClassValue[]) {
 
 export const generateUniqueId = () => `id_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-export const downloadJson = (data: any, filename: string) => {
-  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+export const downloadBlob = (blob: Blob, filename: string) => {
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
@@ -21,6 +20,14 @@ export const downloadJson = (data: any, filename: string) => {
   URL.revokeObjectURL(url);
 };
 
+export const downloadText = (text: string, filename: string) => {
+  downloadBlob(new Blob([text], { type: 'text/plain;charset=utf-8' }), filename);
+};
+
+export const downloadJson = (data: any, filename: string) => {
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), filename);
+};
+
 export const downloadCsv = (data: any[], filename: string) => {
     if (data.length === 0) return;
     const cleanData = data.map(item => {
@@ -28,13 +35,5 @@ export const downloadCsv = (data: any[], filename: string) => {
         return rest;
     });
     const csv = Papa.unparse(cleanData);
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-};
\ No newline at end of file
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), filename);
+};
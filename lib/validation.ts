@@ -0,0 +1,132 @@
+import { Client, Worker, Task, EntityType, ValidationError, AttributeSchema } from '@/types';
+import { normalizeRow } from '@/lib/normalize';
+import { checkAttributes, parseAttributes } from '@/lib/attributes';
+
+// Row-level checks across the three data sets. Cross-references such as unknown TaskIDs and
+// missing skills are checked against the data sets passed in together. Rows are normalized first,
+// so values stored before normalization existed are checked as their canonical types, and values
+// that cannot be converted are reported. Client attributes are checked against the workspace
+// attribute schema when one is set.
+export const validateData = (rawClients: Client[], rawWorkers: Worker[], rawTasks: Task[], attributeSchema: AttributeSchema | null = null): ValidationError[] => {
+    const allErrors: ValidationError[] = [];
+    const normalizeAll = <T extends Client | Worker | Task>(entityType: EntityType, rows: T[]) => rows.map(raw => {
+        const { row, errors } = normalizeRow(entityType, raw);
+        allErrors.push(...errors);
+        return row;
+    });
+    const clients = normalizeAll('clients', rawClients);
+    const workers = normalizeAll('workers', rawWorkers);
+    const tasks = normalizeAll('tasks', rawTasks);
+    const allTaskIds = new Set(tasks.map(t => t.TaskID));
+    const allWorkerSkills = new Set(workers.flatMap(w => w.Skills || []));
+    const allRequiredSkills = new Set(tasks.flatMap(t => t.RequiredSkills || []));
+
+    // Check duplicates
+    const checkDuplicates = (items: any[], idKey: string, entityType: EntityType) => {
+        const ids = new Set<string>();
+        items.forEach(item => {
+            const id = item[idKey] as string;
+            if (!id) {
+                allErrors.push({
+                    entityType, id: item.id, field: idKey, message: "Required ID is missing.",
+                    rowId: undefined
+                });
+            } else if (ids.has(id)) {
+                allErrors.push({
+                    entityType, id, field: idKey, message: `Duplicate ID found: ${id}.`,
+                    rowId: undefined
+                });
+            }
+            ids.add(id);
+        });
+    };
+
+    checkDuplicates(clients, 'ClientID', 'clients');
+    checkDuplicates(workers, 'WorkerID', 'workers');
+    checkDuplicates(tasks, 'TaskID', 'tasks');
+
+    // Validate clients
+    clients.forEach(c => {
+        if (c.PriorityLevel && (c.PriorityLevel < 1 || c.PriorityLevel > 5)) {
+            allErrors.push({
+                entityType: 'clients', id: c.ClientID, field: 'PriorityLevel', message: 'Must be between 1-5.',
+                rowId: undefined
+            });
+        }
+        const attributes = parseAttributes(c.AttributesJSON);
+        if (attributes.error) {
+            allErrors.push({
+                entityType: 'clients', id: c.ClientID, field: 'AttributesJSON', message: 'Invalid JSON format.',
+                rowId: undefined
+            });
+        } else if (attributeSchema) {
+            // Missing attributes are checked as {}, so required keys are still reported.
+            checkAttributes(attributes.value ?? {}, attributeSchema).forEach(issue => allErrors.push({
+                entityType: 'clients', id: c.ClientID, field: 'AttributesJSON', message: `${issue.path}: ${issue.message}`, path: issue.path,
+                rowId: undefined
+            }));
+        }
+        c.RequestedTaskIDs?.forEach(tid => {
+            if (!allTaskIds.has(tid)) {
+                allErrors.push({
+                    entityType: 'clients', id: c.ClientID, field: 'RequestedTaskIDs', message: `Unknown TaskID: ${tid}.`,
+                    rowId: undefined
+                });
+            }
+        });
+    });
+
+    // Validate workers
+    workers.forEach(w => {
+        if (w.MaxLoadPerPhase && w.MaxLoadPerPhase < 0) {
+            allErrors.push({
+                entityType: 'workers', id: w.WorkerID, field: 'MaxLoadPerPhase', message: 'Cannot be negative.',
+                rowId: undefined
+            });
+        }
+        if (w.MaxConcurrent && w.MaxConcurrent < 1) {
+            allErrors.push({
+                entityType: 'workers', id: w.WorkerID, field: 'MaxConcurrent', message: 'Must be at least 1.',
+                rowId: undefined
+            });
+        }
+    });
+
+    // Validate tasks
+    tasks.forEach(t => {
+        if (t.Duration && t.Duration < 1) {
+            allErrors.push({
+                entityType: 'tasks', id: t.TaskID, field: 'Duration', message: 'Must be at least 1.',
+                rowId: undefined
+            });
+        }
+        t.RequiredSkills?.forEach(skill => {
+            if (!allWorkerSkills.has(skill)) {
+                allErrors.push({
+                    entityType: 'tasks', id: t.TaskID, field: 'RequiredSkills', message: `No worker has the required skill: ${skill}.`,
+                    rowId: undefined
+                });
+            }
+        });
+    });
+
+    // Skill coverage
+    allRequiredSkills.forEach(skill => {
+        if (!allWorkerSkills.has(skill)) {
+            allErrors.push({
+                entityType: 'tasks', id: 'Global', field: 'Skill Coverage', message: `The skill '${skill}' is required by a task but not provided by any worker.`,
+                rowId: undefined
+            });
+        }
+    });
+
+    return allErrors;
+};
+
+const errorKey = (error: ValidationError) => `${error.entityType}|${error.id}|${error.field}|${error.message}`;
+
+// Errors in `after` that `before` does not already have, e.g. the ones an import would introduce.
+export const introducedErrors = (before: ValidationError[], after: ValidationError[]) => {
+    const existing = new Set(before.map(errorKey));
+    return after.filter(error => !existing.has(errorKey(error)));
+};
@@ -0,0 +1,32 @@
+// Parsers for the loosely typed cell values that come out of CSV and XLSX uploads.
+
+export const toList = (value: unknown): string[] => {
+    if (Array.isArray(value)) return value.map(v => String(v).trim()).filter(Boolean);
+    if (value === undefined || value === null || value === '') return [];
+    return String(value).replace(/[\[\]]/g, '').split(',').map(s => s.trim()).filter(Boolean);
+};
+
+export const toNumber = (value: unknown, fallback: number): number => {
+    if (value === undefined || value === null || value === '') return fallback;
+    const n = Number(value);
+    return isNaN(n) ? fallback : n;
+};
+
+// The highest phase number accepted anywhere. Phase lists and windows are expanded phase by
+// phase, so an unbounded range such as 1-100000000 would freeze the page.
+export const MAX_PHASE = 1000;
+
+// Expands a phase list such as [1, "3-5"] or "1, 3-5" into sorted phase numbers. Phases above
+// MAX_PHASE are left out; normalizeField reports them when the data is entered.
+export const parsePhases = (value: unknown): number[] => {
+    const phases = new Set<number>();
+    toList(value).forEach(entry => {
+        const range = entry.match(/^(\d+)\s*-\s*(\d+)$/);
+        if (range) {
+            for (let p = Number(range[1]); p <= Math.min(Number(range[2]), MAX_PHASE); p++) phases.add(p);
+        } else if (/^\d+$/.test(entry) && Number(entry) <= MAX_PHASE) {
+            phases.add(Number(entry));
+        }
+    });
+    return Array.from(phases).sort((a, b) => a - b);
+};
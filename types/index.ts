@@ -4,6 +4,7 @@ export interface BaseData {
 
 export interface Client extends BaseData {
   ClientID: string;
+  ClientName?: string;
   ClientGroup?: string;
   PriorityLevel?: number; 
   RequestedTaskIDs?: string[]; 
@@ -12,6 +13,7 @@ export interface Client extends BaseData {
 
 export interface Worker extends BaseData {
   WorkerID: string;
+  WorkerName?: string;
   WorkerGroup?: string;
   Skills?: string[]; 
   AvailableSlots?: number[]; 
@@ -21,6 +23,7 @@ export interface Worker extends BaseData {
 
 export interface Task extends BaseData {
   TaskID: string;
+  TaskName?: string;
   RequiredSkills?: string[];
   PreferredPhases?: (number | string)[];
   Duration?: number;
@@ -29,6 +32,23 @@ export interface Task extends BaseData {
 
 export type EntityType = 'clients' | 'workers' | 'tasks';
 
+// replace: the file becomes the whole data set; append: file rows are added; upsert: rows whose
+// business ID (ClientID, WorkerID, TaskID) already exists are updated, the rest are added.
+export type ImportMode = 'replace' | 'append' | 'upsert';
+
+// Which entity field an uploaded column feeds; a null target leaves the column out.
+export interface ColumnMapping {
+  source: string;
+  target: string | null;
+}
+
+// A confirmed mapping, remembered for files with the same set of columns.
+export interface SavedColumnMapping {
+  signature: string;
+  entityType: EntityType;
+  columns: ColumnMapping[];
+}
+
 export interface ValidationError {
   rowId: any;
   entityType: EntityType;
@@ -36,4 +56,242 @@ export interface ValidationError {
   field: string;
   message: string;
   suggestion?: string;
-}
\ No newline at end of file
+  // Where inside a JSON field the error is, e.g. $.address.city in AttributesJSON.
+  path?: string;
+}
+
+export type AttributeType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+
+// The subset of JSON Schema a workspace can set for client AttributesJSON: types, allowed values,
+// number bounds, required keys, and nested objects and arrays.
+export interface AttributeSchema {
+  type?: AttributeType;
+  enum?: (string | number | boolean | null)[];
+  minimum?: number;
+  maximum?: number;
+  properties?: Record<string, AttributeSchema>;
+  required?: string[];
+  // false rejects keys not listed in properties.
+  additionalProperties?: boolean;
+  items?: AttributeSchema;
+  description?: string;
+}
+
+interface RuleBase {
+  id: string;
+  disabled?: boolean;
+}
+
+export interface CoRunRule extends RuleBase {
+  type: 'CO_RUN';
+  params: { taskIds: string[] };
+}
+
+export interface ExclusionRule extends RuleBase {
+  type: 'EXCLUSION';
+  params: { taskIds: string[] };
+}
+
+export interface SequentialRule extends RuleBase {
+  type: 'SEQUENTIAL';
+  params: { taskIds: string[] };
+}
+
+export interface SlotRestrictionRule extends RuleBase {
+  type: 'SLOT_RESTRICTION';
+  params: { groupType: 'client' | 'worker'; group: string; minCommonSlots: number };
+}
+
+export interface LoadLimitRule extends RuleBase {
+  type: 'LOAD_LIMIT';
+  params: { workerGroup: string; maxSlotsPerPhase: number };
+}
+
+export interface PhaseWindowRule extends RuleBase {
+  type: 'PHASE_WINDOW';
+  params: { taskId: string; allowedPhases?: number[]; range?: { start: number; end: number } };
+}
+
+export type TaskGroupRule = CoRunRule | ExclusionRule | SequentialRule;
+
+// Says which rule family wins when two overlapping rules contradict each other,
+// regardless of their position in the rules list.
+export interface PrecedenceOverrideRule extends RuleBase {
+  type: 'PRECEDENCE_OVERRIDE';
+  params: { winner: TaskGroupRule['type']; loser: TaskGroupRule['type'] };
+}
+
+export type Rule = TaskGroupRule | SlotRestrictionRule | LoadLimitRule | PhaseWindowRule | PrecedenceOverrideRule;
+
+export type RuleType = Rule['type'];
+
+// A rule without its id, e.g. before it is added to the rules list.
+export type RuleDraft = { [K in RuleType]: Omit<Extract<Rule, { type: K }>, 'id'> }[RuleType];
+
+export type RuleTemplateKind = 'SKILL_PHASE_WINDOW' | 'SKILL_EXCLUSION' | 'GROUP_LOAD_LIMIT';
+
+// A named rule pattern. `values` holds the parameters saved with it; blank ones are asked for
+// when the template is used.
+export interface RuleTemplate {
+  id: string;
+  name: string;
+  kind: RuleTemplateKind;
+  values: Record<string, string | number>;
+}
+
+export interface QuarantinedRule {
+  raw: unknown;
+  errors: string[];
+}
+
+export type RuleIssueSeverity = 'error' | 'warning' | 'info';
+
+export type RuleIssueCode =
+  | 'SEQUENTIAL_CYCLE'
+  | 'CONTRADICTION'
+  | 'CO_RUN_TASK_CONFLICT'
+  | 'DUPLICATE'
+  | 'UNKNOWN_TASK'
+  | 'NO_EFFECT';
+
+export interface RuleIssue {
+  ruleId: string;
+  severity: RuleIssueSeverity;
+  code: RuleIssueCode;
+  message: string;
+  relatedRuleIds: string[];
+}
+
+// A rule proposed from the loaded data. `key` stays the same for the same proposal across
+// sessions, so dismissals can be remembered.
+export interface RuleRecommendation {
+  key: string;
+  rule: Omit<CoRunRule, 'id'> | Omit<LoadLimitRule, 'id'>;
+  support: number;
+  confidence: number;
+  why: string[];
+}
+
+export interface RuleResolution {
+  ruleId: string;
+  rank: number;
+  status: 'active' | 'disabled' | 'overridden';
+  overriddenBy?: string;
+  reason?: string;
+}
+
+export type CriterionKey = 'fulfill' | 'workload' | 'priority' | 'fairness' | 'skillMatch' | 'preferredPhases' | 'groupBalance';
+
+// Weight per prioritization criterion, as a percentage; the weights sum to 100.
+export type Priorities = Record<CriterionKey, number>;
+
+export interface PriorityPreset {
+  id: string;
+  name: string;
+  priorities: Priorities;
+  // Applied when no weights have been saved yet, and by "Reset to default".
+  isDefault?: boolean;
+}
+
+export type WeightingMode = 'sliders' | 'pairwise' | 'ranking';
+
+export type RankWeightScheme = 'rank-sum' | 'rank-reciprocal' | 'rank-order-centroid';
+
+// How the weights were last set, stored beside them so the same view reopens.
+export interface WeightingSettings {
+  mode: WeightingMode;
+  // Criteria from most to least important; criteria left out get weight 0.
+  ranking: CriterionKey[];
+  scheme: RankWeightScheme;
+}
+
+export type ReasonCode =
+  | 'SKILL_MATCH'
+  | 'PHASE_SELECTED'
+  | 'PREFERRED_PHASES_MET'
+  | 'CO_RUN_GROUPED'
+  | 'SEQUENTIAL_AFTER'
+  | 'WORKER_CHOSEN'
+  | 'UNKNOWN_TASK'
+  | 'NO_SKILLED_WORKER'
+  | 'OUTSIDE_PREFERRED_PHASES'
+  | 'SLOT_UNAVAILABLE'
+  | 'MAX_LOAD_REACHED'
+  | 'MAX_CONCURRENT_REACHED'
+  | 'LOAD_LIMIT_REACHED'
+  | 'PHASE_WINDOW_MET'
+  | 'OUTSIDE_PHASE_WINDOW'
+  | 'EXCLUSION_BLOCKED'
+  | 'CO_RUN_SEQUENTIAL_CONFLICT'
+  | 'SEQUENTIAL_CYCLE'
+  | 'PREDECESSOR_UNASSIGNED'
+  | 'NO_PHASE_AFTER_PREDECESSOR'
+  | 'INVALID_DURATION';
+
+export type ReasonRef =
+  | { kind: 'row'; entityType: EntityType; id: string; field?: string }
+  | { kind: 'rule'; ruleId: string };
+
+export interface ReasonEntry {
+  code: ReasonCode;
+  message: string;
+  refs: ReasonRef[];
+}
+
+export type ConflictKind =
+  | 'SEQUENTIAL_CYCLE'
+  | 'SEQUENTIAL_TOO_LONG'
+  | 'CO_RUN_OVER_CAPACITY'
+  | 'CO_RUN_NO_SKILLED_WORKER'
+  | 'CO_RUN_EXCLUSION'
+  | 'CO_RUN_SEQUENTIAL'
+  | 'PREFERRED_WINDOW_TOO_SHORT'
+  | 'PHASE_WINDOW_CONFLICT'
+  | 'SLOT_RESTRICTION_UNMET';
+
+export interface Conflict {
+  kind: ConflictKind;
+  message: string;
+  refs: ReasonRef[];
+}
+
+export interface Assignment {
+  clientId: string;
+  taskId: string;
+  workerId: string;
+  phases: number[];
+  trace: ReasonEntry[];
+}
+
+export interface UnassignedRequest {
+  clientId: string;
+  taskId: string;
+  reason: string;
+  trace: ReasonEntry[];
+}
+
+export interface AllocationMetrics {
+  requested: number;
+  fulfilled: number;
+  fulfillmentRate: number;
+  loadVariance: number;
+  priorityFulfillment: number;
+  fulfillmentByPriority: { [level: number]: { requested: number; fulfilled: number } };
+}
+
+export interface AllocationPlan {
+  strategy: string;
+  score: number;
+  phases: number[];
+  metrics: AllocationMetrics;
+  assignments: Assignment[];
+  unassigned: UnassignedRequest[];
+  workerLoad: { [workerId: string]: { [phase: number]: number } };
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  priorities: Priorities;
+  ruleIds?: string[];
+}